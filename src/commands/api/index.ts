@@ -0,0 +1,91 @@
+import { getStringFlag, hasFlag, parseArgs } from "../../util/args.js";
+import { reportApiError, resolveApiSettings } from "../../util/api/client.js";
+import { fetchApiHealth } from "../../util/api/graph-api.js";
+import { startMockApiServer } from "../../util/api/mock-server.js";
+import { printJson } from "../../util/io.js";
+
+const DEFAULT_MOCK_PORT = 8787;
+
+function apiHelp(): string {
+  return [
+    "Usage:",
+    "  fide api ping [--endpoint <url>] [--json]",
+    "  fide api mock [--port <n>] [--host <host>] [--token <token>] [--fail-first <n>]",
+    "",
+    "Notes:",
+    "  - Endpoint: --endpoint > FIDE_API_ENDPOINT > api.endpoint in .fide/config.json. The bearer token comes from FIDE_API_TOKEN only.",
+    "  - Requests time out after api.timeoutMs and retry api.retries times with backoff on network errors, timeouts, 408/429 and 500/502/503/504.",
+    `  - mock serves the graph API routes in memory on 127.0.0.1:${DEFAULT_MOCK_PORT} until interrupted; --fail-first answers the first N requests with 503.`,
+    "  - Point commands at it with FIDE_API_ENDPOINT=http://127.0.0.1:8787 and --remote (graph ingest apply|replay, graph query match|sql).",
+  ].join("\n");
+}
+
+function readCountFlag(flags: Map<string, string | boolean>, key: string, fallback: number): number | null {
+  const raw = getStringFlag(flags, key);
+  if (raw === null) return fallback;
+  const value = Number(raw);
+  return Number.isInteger(value) && value >= 0 ? value : null;
+}
+
+async function runApiPing(args: string[]): Promise<number> {
+  const { flags } = parseArgs(args);
+  const json = hasFlag(flags, "json");
+  const settings = resolveApiSettings(flags);
+  if (!settings.ok) return reportApiError("api ping", settings.error, json);
+
+  const started = Date.now();
+  const health = await fetchApiHealth(settings.data);
+  if (!health.ok) return reportApiError("api ping", health.error, json);
+  const payload = {
+    ok: true,
+    endpoint: settings.data.endpoint,
+    authenticated: settings.data.token !== null,
+    elapsedMs: Date.now() - started,
+    attempts: health.attempts,
+    health: health.data,
+  };
+  if (json) printJson(payload);
+  else console.log(`${payload.endpoint} ok service=${health.data.service} roots=${health.data.rootCount} (${payload.elapsedMs}ms)`);
+  return 0;
+}
+
+async function runApiMock(args: string[]): Promise<number> {
+  const { flags } = parseArgs(args);
+  const port = readCountFlag(flags, "port", DEFAULT_MOCK_PORT);
+  const failFirst = readCountFlag(flags, "fail-first", 0);
+  if (port === null || failFirst === null) {
+    console.error("--port and --fail-first must be non-negative integers.");
+    return 1;
+  }
+
+  const server = await startMockApiServer({
+    host: getStringFlag(flags, "host") ?? "127.0.0.1",
+    port,
+    token: getStringFlag(flags, "token"),
+    failFirst,
+  });
+  console.log(`mock API listening on ${server.url} (Ctrl+C to stop)`);
+  await new Promise<void>((resolveStop) => {
+    process.once("SIGINT", resolveStop);
+    process.once("SIGTERM", resolveStop);
+  });
+  await server.close();
+  return 0;
+}
+
+/**
+ * Route `fide api <command>` subcommands.
+ */
+export async function runApiCommand(command: string | undefined, args: string[]): Promise<number> {
+  if (!command || command === "--help" || command === "-h" || command === "help") {
+    console.log(apiHelp());
+    return 0;
+  }
+
+  if (command === "ping") return runApiPing(args);
+  if (command === "mock") return runApiMock(args);
+
+  console.error(`Unknown api command: ${command}`);
+  console.error(apiHelp());
+  return 1;
+}
@@ -4,11 +4,16 @@ import { resolve } from "node:path";
 import { parseGraphStatementBatchJsonl, statementDoc } from "@chris-test/graph";
 import { buildStatementRawIdentifier, type StatementInput } from "@chris-test/fcp";
 import { getStringFlag, hasFlag, parseArgs } from "../../util/args.js";
+import { getFideConfig, resolveConfiguredPath } from "../../util/config.js";
+import { slugify, utcDatePath } from "../../util/eval-files.js";
 import { printJson, readUtf8, writeUtf8 } from "../../util/io.js";
+import { findStatementBatchPath, openWorkspaceIndex } from "../../util/statements/workspace-index.js";
+import { VOCAB_IRIS } from "../../util/statements/vocab.js";
+import { resolveWorkspaceRoot } from "../../util/workspace.js";
 
-const EVAL_DECISION_IRI = "https://example.org/evaluation/decision";
-const EVAL_CONFIDENCE_IRI = "https://example.org/evaluation/confidence";
-const EVAL_REASON_IRI = "https://example.org/evaluation/reason";
+const EVAL_DECISION_IRI = VOCAB_IRIS.evalDecision;
+const EVAL_CONFIDENCE_IRI = VOCAB_IRIS.evalConfidence;
+const EVAL_REASON_IRI = VOCAB_IRIS.evalReason;
 const VALID_DECISIONS = new Set(["supports", "contradicts", "insufficient"]);
 
 type EvalAddOptions = {
@@ -76,19 +81,20 @@ function getGitContext(): GitContext | null {
   if (cachedGitContext) return cachedGitContext;
   try {
     const root = execFileSync("git", ["rev-parse", "--show-toplevel"], {
-      cwd: process.cwd(),
+      cwd: resolveWorkspaceRoot(),
       encoding: "utf8",
     }).trim();
-    const originRaw = execFileSync("git", ["remote", "get-url", "origin"], {
-      cwd: process.cwd(),
+    const config = getFideConfig();
+    const originRaw = execFileSync("git", ["remote", "get-url", config.git.remote], {
+      cwd: resolveWorkspaceRoot(),
       encoding: "utf8",
     }).trim();
     const originHttps = toOriginHttps(originRaw);
     if (!originHttps) return null;
-    const branch = execFileSync("git", ["rev-parse", "--abbrev-ref", "HEAD"], {
-      cwd: process.cwd(),
+    const branch = config.git.branch ?? (execFileSync("git", ["rev-parse", "--abbrev-ref", "HEAD"], {
+      cwd: resolveWorkspaceRoot(),
       encoding: "utf8",
-    }).trim() || "main";
+    }).trim() || "main");
     cachedGitContext = { root, originHttps, branch };
     return cachedGitContext;
   } catch {
@@ -108,17 +114,6 @@ function toGitHubUrl(pathLike: string | null): string | null {
   return `${git.originHttps}/blob/${git.branch}/${rel}`;
 }
 
-function utcDatePath(now = new Date()): string {
-  const y = String(now.getUTCFullYear());
-  const m = String(now.getUTCMonth() + 1).padStart(2, "0");
-  const d = String(now.getUTCDate()).padStart(2, "0");
-  return `${y}/${m}/${d}`;
-}
-
-function slugify(input: string): string {
-  return input.replace(/[^a-zA-Z0-9._-]/g, "-");
-}
-
 function shortHash(input: string): string {
   return createHash("sha256").update(input).digest("hex").slice(0, 12);
 }
@@ -213,16 +208,16 @@ export async function runEvalAdd(args: string[]): Promise<number> {
   try {
     const options = parseOptions(args);
     const envContext = readEnvContext();
-    const method = options.method ?? envContext.method ?? null;
+    const method = options.method ?? envContext.method ?? getFideConfig().eval.method;
     const target = options.target ?? envContext.target ?? null;
-    const from = options.from ?? envContext.from ?? null;
+    const from = options.from ?? envContext.from ??
+      (target ? findStatementBatchPath(await openWorkspaceIndex(), target) : null);
     const consideration = options.consideration ?? envContext.consideration ?? null;
     const evidenceStatement = options.evidenceStatement ?? envContext.evidenceStatement ?? null;
     const promptFile = options.promptFile ?? envContext.promptFile ?? null;
     const considerationRef = options.considerationRef ?? envContext.considerationRef ?? null;
-    if (!method) throw new Error("Missing --method (or FIDE_EVAL_METHOD).");
     if (!target) throw new Error("Missing --target (or FIDE_EVAL_TARGET).");
-    if (!from) throw new Error("Missing --from (or FIDE_EVAL_FROM).");
+    if (!from) throw new Error("Missing --from (or FIDE_EVAL_FROM), and the target was not found in the workspace index.");
 
     const batchPath = resolve(process.cwd(), from);
     const batchRaw = await readUtf8(batchPath);
@@ -316,7 +311,7 @@ export async function runEvalAdd(args: string[]): Promise<number> {
     const id = shortHash(
       `${method}|${target}|${options.decision}|${options.confidence}|${options.reason}`,
     );
-    const outPath = `.fide/evals/drafts/${datePath}/${methodPath}/${targetSlug}/add-${id}.md`;
+    const outPath = resolve(resolveConfiguredPath("evalDrafts"), datePath, methodPath, targetSlug, `add-${id}.md`);
     await writeUtf8(outPath, `${withMeta.trimEnd()}\n`);
 
     const payload = {
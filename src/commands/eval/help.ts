@@ -8,10 +8,11 @@ export function evalHelp(): string {
     "  - `eval add` writes a statement-doc draft under .fide/evals/drafts/YYYY/MM/DD/.",
     "  - If method/target/from are omitted, `eval add` can read env vars: FIDE_EVAL_METHOD, FIDE_EVAL_TARGET, FIDE_EVAL_FROM.",
     "  - Atomic context can also be provided via flags/env: consideration, evidence statement id, and prompt file.",
-    "  - If --from is omitted, the latest .fide/statements/**/*.jsonl batch is used.",
+    "  - If --from is omitted, the target is located through the workspace index (.fide/index) and context is gathered across batches; otherwise the latest .fide/statements/**/*.jsonl batch is used.",
     "  - `eval prompt` supports methods: temporal-validity/owl-sameAs/Person@v1, temporal-validity/owl-sameAs/Concept@v1",
     "  - `prompt` writes sectioned prompt preview files under .fide/evals/prompts/YYYY/MM/DD/.",
     "  - `--agent codex --draft` runs Codex for each prompt and writes statement-doc drafts under .fide/evals/drafts/YYYY/MM/DD/.",
     "  - `--stream` shows live Codex output while agent mode is running.",
+    "  - Defaults for method, agent, output directories and the permalink git remote come from .fide/config.json (flags > env > config).",
   ].join("\n");
 }
@@ -1,30 +1,37 @@
-import { readdir } from "node:fs/promises";
 import { execFile, spawn } from "node:child_process";
 import { resolve } from "node:path";
 import { promisify } from "node:util";
-import {
-  buildStatementRawIdentifier,
-  compactPredicateRawIdentifier,
-  parseFideId,
-} from "@chris-test/fcp";
+import { buildStatementRawIdentifier, parseFideId } from "@chris-test/fcp";
 import { parseGraphStatementBatchJsonl } from "@chris-test/graph";
 import type { FideIdStatement } from "@chris-test/evaluation-methods";
 import { getStringFlag, hasFlag, parseArgs } from "../../util/args.js";
-import { printJson, readUtf8, writeUtf8 } from "../../util/io.js";
+import { getFideConfig, resolveConfiguredPath } from "../../util/config.js";
+import { shortFideSuffix, slugify, utcDatePath } from "../../util/eval-files.js";
+import { collectFilesWithExt, printJson, readUtf8, writeUtf8 } from "../../util/io.js";
+import { formatStatementTextBlock } from "../../util/statements/render.js";
+import { collectJsonlFiles, resolveStatementsRoot } from "../../util/statements/store.js";
+import {
+  findStatementBatchPath,
+  findStatementIdsByEntity,
+  openWorkspaceIndex,
+  readIndexedStatements,
+} from "../../util/statements/workspace-index.js";
+import { formatVocabDefinitionMarkdown, loadVocabulary, VOCAB_IRIS, type VocabTerm } from "../../util/statements/vocab.js";
+import { resolveWorkspaceRoot } from "../../util/workspace.js";
 
 const execFileAsync = promisify(execFile);
 
-const OWL_SAME_AS_IRI = "https://www.w3.org/2002/07/owl#sameAs";
-const OWL_DIFFERENT_FROM_IRI = "https://www.w3.org/2002/07/owl#differentFrom";
-const SCHEMA_VALID_FROM_IRI = "https://schema.org/validFrom";
-const SCHEMA_VALID_THROUGH_IRI = "https://schema.org/validThrough";
-const PROV_HAD_PRIMARY_SOURCE_IRI = "https://www.w3.org/ns/prov#hadPrimarySource";
-const SCHEMA_NAME_IRI = "https://schema.org/name";
-
-const PERSON_AFFILIATION_PREDICATES = new Set([
-  "https://schema.org/worksFor",
-  "https://schema.org/memberOf",
-  "https://schema.org/affiliation",
+const OWL_SAME_AS_IRI = VOCAB_IRIS.owlSameAs;
+const OWL_DIFFERENT_FROM_IRI = VOCAB_IRIS.owlDifferentFrom;
+const SCHEMA_VALID_FROM_IRI = VOCAB_IRIS.schemaValidFrom;
+const SCHEMA_VALID_THROUGH_IRI = VOCAB_IRIS.schemaValidThrough;
+const PROV_HAD_PRIMARY_SOURCE_IRI = VOCAB_IRIS.provHadPrimarySource;
+const SCHEMA_NAME_IRI = VOCAB_IRIS.schemaName;
+
+const PERSON_AFFILIATION_PREDICATES: Set<string> = new Set([
+  VOCAB_IRIS.schemaWorksFor,
+  VOCAB_IRIS.schemaMemberOf,
+  VOCAB_IRIS.schemaAffiliation,
 ]);
 
 const METHOD_TARGET_TYPES = {
@@ -75,23 +82,6 @@ type PromptAtomicOptions = {
   json: boolean;
 };
 
-function utcDatePath(now = new Date()): string {
-  const y = String(now.getUTCFullYear());
-  const m = String(now.getUTCMonth() + 1).padStart(2, "0");
-  const d = String(now.getUTCDate()).padStart(2, "0");
-  return `${y}/${m}/${d}`;
-}
-
-function slugify(input: string): string {
-  return input.replace(/[^a-zA-Z0-9._-]/g, "-");
-}
-
-function shortFideSuffix(fideId: string): string {
-  const m = fideId.match(/0x([a-f0-9]{40})$/i);
-  if (!m) return slugify(fideId).slice(-12);
-  return m[1]!.slice(-12);
-}
-
 function normalizeAtomicConsideration(value: string | null): AtomicConsideration | null {
   if (!value) return null;
   return (ALL_ATOMIC_CONSIDERATIONS as string[]).includes(value)
@@ -99,20 +89,9 @@ function normalizeAtomicConsideration(value: string | null): AtomicConsideration
     : null;
 }
 
-async function collectJsonlFiles(dir: string): Promise<string[]> {
-  const entries = await readdir(dir, { withFileTypes: true });
-  const files: string[] = [];
-  for (const entry of entries) {
-    const full = resolve(dir, entry.name);
-    if (entry.isDirectory()) files.push(...(await collectJsonlFiles(full)));
-    else if (entry.isFile() && full.endsWith(".jsonl")) files.push(full);
-  }
-  return files;
-}
-
 async function resolveInputBatchPath(inPath: string | null): Promise<string> {
   if (inPath) return resolve(process.cwd(), inPath);
-  const root = resolve(process.cwd(), ".fide", "statements");
+  const root = resolveStatementsRoot();
   const candidates = await collectJsonlFiles(root);
   if (candidates.length === 0) {
     throw new Error("No statement batches found under .fide/statements. Pass --from <batch.jsonl>.");
@@ -121,6 +100,54 @@ async function resolveInputBatchPath(inPath: string | null): Promise<string> {
   return candidates[candidates.length - 1]!;
 }
 
+/**
+ * Load a target statement and its surrounding context from the workspace index.
+ * Follows statement-about-statement and primary-source links for a few hops so
+ * context spread across batches (validFrom, citations, names) is included.
+ */
+async function loadIndexedPromptStatements(
+  targetStatementFideId: string,
+): Promise<{ batchPath: string; statements: FideIdStatement[] } | null> {
+  const index = await openWorkspaceIndex();
+  const batchPath = findStatementBatchPath(index, targetStatementFideId);
+  if (!batchPath) return null;
+
+  const [target] = await readIndexedStatements(index, [targetStatementFideId]);
+  if (!target) return null;
+
+  const seen = new Set<string>([targetStatementFideId]);
+  const collected = [target];
+  let frontier = new Set([target.subjectFideId, target.objectFideId, target.statementFideId]);
+  for (let hop = 0; hop < 3 && frontier.size > 0; hop += 1) {
+    const nextIds: string[] = [];
+    for (const entity of frontier) {
+      for (const statementFideId of findStatementIdsByEntity(index, entity)) {
+        if (seen.has(statementFideId)) continue;
+        seen.add(statementFideId);
+        nextIds.push(statementFideId);
+      }
+    }
+    const hits = await readIndexedStatements(index, nextIds);
+    collected.push(...hits);
+    frontier = new Set(
+      hits.flatMap((hit) =>
+        hit.predicateRawIdentifier === PROV_HAD_PRIMARY_SOURCE_IRI ? [hit.statementFideId, hit.objectFideId] : [hit.statementFideId],
+      ),
+    );
+  }
+
+  const statements = collected.map((hit): FideIdStatement => ({
+    statementFideId: hit.statementFideId,
+    subjectFideId: hit.subjectFideId,
+    subjectRawIdentifier: hit.subjectRawIdentifier,
+    predicateFideId: hit.predicateFideId,
+    predicateRawIdentifier: hit.predicateRawIdentifier,
+    objectFideId: hit.objectFideId,
+    objectRawIdentifier: hit.objectRawIdentifier,
+  }));
+  return { batchPath, statements };
+}
+
 function mapToFideIdStatements(
   statements: Awaited<ReturnType<typeof parseGraphStatementBatchJsonl>>["statements"],
   statementFideIds: string[],
@@ -140,106 +167,36 @@ function matchesStatementReference(statement: FideIdStatement, target: FideIdSta
   );
 }
 
-function toFideTypeCurie(entityType: string): string {
-  return `fide:${entityType}`;
-}
-
 function statementTextBlock(
   statement: FideIdStatement,
   sectionByStatementRef: Map<string, string>,
 ): string {
-  const subject = (() => {
-    try {
-      return parseFideId(statement.subjectFideId as `did:fide:0x${string}`);
-    } catch {
-      return { entityType: "Unknown", sourceType: "Unknown" };
-    }
-  })();
-  const object = (() => {
-    try {
-      return parseFideId(statement.objectFideId as `did:fide:0x${string}`);
-    } catch {
-      return { entityType: "Unknown", sourceType: "Unknown" };
-    }
-  })();
-
-  const subjectPhrase = subject.entityType === "Statement"
-    ? "fide:Statement"
-    : `${toFideTypeCurie(subject.entityType)} (source ${toFideTypeCurie(subject.sourceType)})`;
-  const objectPhrase = `${toFideTypeCurie(object.entityType)} (source ${toFideTypeCurie(object.sourceType)})`;
   const subjectRef =
     sectionByStatementRef.get(statement.subjectRawIdentifier) ??
     sectionByStatementRef.get(statement.subjectFideId) ??
     statement.subjectRawIdentifier;
   const subjectValue = subjectRef.startsWith("Statement:") ? `section: ${subjectRef}` : subjectRef;
-
-  return [
-    `- subject (${subjectPhrase}): ${subjectValue}`,
-    `- predicate: ${compactPredicateRawIdentifier(statement.predicateRawIdentifier)}`,
-    `- object (${objectPhrase}): ${statement.objectRawIdentifier}`,
-  ].join("\n");
+  return formatStatementTextBlock(statement, { subjectValue });
 }
 
-function buildDefinitionsMarkdown(consideration: AtomicConsideration): string[] {
-  const base = [
-    "### owl:sameAs",
-    "- kind: predicate",
-    "- definition: Indicates two identifiers refer to the same entity.",
-    "",
-    "### schema:validFrom",
-    "- kind: predicate",
-    "- definition: The date/time from which a statement is valid.",
-  ];
-
-  if (consideration === "citation_chain") {
-    return [
-      ...base,
-      "",
-      "### prov:hadPrimarySource",
-      "- kind: predicate",
-      "- definition: Links a statement to primary-source evidence.",
-    ];
-  }
-
-  if (consideration === "explicit_contradiction") {
-    return [
-      ...base,
-      "",
-      "### owl:differentFrom",
-      "- kind: predicate",
-      "- definition: Indicates two identifiers refer to different entities.",
-    ];
-  }
-
-  if (consideration === "name_alignment") {
-    return [
-      ...base,
-      "",
-      "### schema:name",
-      "- kind: predicate",
-      "- definition: The name of an item.",
-    ];
-  }
-
-  if (consideration === "affiliation_overlap") {
-    return [
-      ...base,
-      "",
-      "### schema:worksFor",
-      "- kind: predicate",
-      "- definition: Organization that a person works for.",
-      "",
-      "### schema:memberOf",
-      "- kind: predicate",
-      "- definition: Indicates membership in an organization.",
-      "",
-      "### schema:affiliation",
-      "- kind: predicate",
-      "- definition: Indicates affiliation with an organization.",
-    ];
-  }
+const DEFINITION_IRIS_BY_CONSIDERATION: Record<AtomicConsideration, string[]> = {
+  citation_chain: [PROV_HAD_PRIMARY_SOURCE_IRI],
+  explicit_contradiction: [OWL_DIFFERENT_FROM_IRI],
+  name_alignment: [SCHEMA_NAME_IRI],
+  affiliation_overlap: [...PERSON_AFFILIATION_PREDICATES],
+  valid_from_timestamp: [],
+};
 
-  return base;
+/**
+ * Definitions section for a consideration, drawn from the vocabulary registry.
+ */
+function buildDefinitionsMarkdown(consideration: AtomicConsideration, vocab: VocabTerm[]): string[] {
+  const iris = [OWL_SAME_AS_IRI, SCHEMA_VALID_FROM_IRI, ...DEFINITION_IRIS_BY_CONSIDERATION[consideration]];
+  return iris.flatMap((iri, index) => {
+    const term = vocab.find((candidate) => candidate.iri === iri);
+    if (!term) return [];
+    return [...(index > 0 ? [""] : []), ...formatVocabDefinitionMarkdown(term)];
+  });
 }
 
 function buildPrimarySourceReportLines(
@@ -491,7 +448,7 @@ function defaultEvalPromptAtomicOutPath(params: {
   const evidenceShort = shortFideSuffix(params.evidenceStatementFideId);
   const methodPath = params.method.split("@")[0]!;
   return [
-    ".fide/evals/prompts",
+    resolveConfiguredPath("evalPrompts"),
     datePath,
     methodPath,
     statementSlug,
@@ -537,7 +494,7 @@ async function runCodexDraft(
   if (stream) {
     await new Promise<void>((resolvePromise, reject) => {
       const child = spawn("codex", ["exec", prompt], {
-        cwd: process.cwd(),
+        cwd: resolveWorkspaceRoot(),
         env: {
           ...process.env,
           FIDE_EVAL_METHOD: context.method,
@@ -561,7 +518,7 @@ async function runCodexDraft(
   }
 
   await execFileAsync("codex", ["exec", prompt], {
-    cwd: process.cwd(),
+    cwd: resolveWorkspaceRoot(),
     env: {
       ...process.env,
       FIDE_EVAL_METHOD: context.method,
@@ -576,32 +533,13 @@ async function runCodexDraft(
   });
 }
 
-async function collectFilesWithExt(dir: string, ext: string): Promise<string[]> {
-  let entries: Awaited<ReturnType<typeof readdir>>;
-  try {
-    entries = await readdir(dir, { withFileTypes: true });
-  } catch {
-    return [];
-  }
-
-  const files: string[] = [];
-  for (const entry of entries) {
-    const full = resolve(dir, entry.name);
-    if (entry.isDirectory()) {
-      files.push(...(await collectFilesWithExt(full, ext)));
-    } else if (entry.isFile() && full.endsWith(ext)) {
-      files.push(full);
-    }
-  }
-  return files;
-}
-
 function parseOptions(args: string[]): PromptAtomicOptions {
   const { flags } = parseArgs(args);
   if (hasFlag(flags, "help")) {
     throw new Error("HELP");
   }
-  const methodRaw = getStringFlag(flags, "method") ?? "temporal-validity/owl-sameAs/Person@v1";
+  const config = getFideConfig();
+  const methodRaw = getStringFlag(flags, "method") ?? config.eval.method;
   if (!(methodRaw in METHOD_TARGET_TYPES)) {
     throw new Error(
       `Unsupported --method: ${methodRaw}. Supported: ${Object.keys(METHOD_TARGET_TYPES).join(", ")}`,
@@ -621,8 +559,8 @@ function parseOptions(args: string[]): PromptAtomicOptions {
   if (getStringFlag(flags, "evidence-statement") && !consideration) {
     throw new Error("--evidence-statement requires --consideration.");
   }
-  const agent = getStringFlag(flags, "agent");
   const draft = hasFlag(flags, "draft");
+  const agent = getStringFlag(flags, "agent") ?? (draft ? config.eval.agent : null);
   const stream = hasFlag(flags, "stream");
   if (draft && !agent) {
     throw new Error("--draft requires --agent <codex>.");
@@ -651,10 +589,13 @@ export async function runEvalPrompt(args: string[]): Promise<number> {
   try {
     const options = parseOptions(args);
 
-    const batchPath = await resolveInputBatchPath(options.from);
-    const raw = await readUtf8(batchPath);
-    const parsed = await parseGraphStatementBatchJsonl(raw);
-    const statements = mapToFideIdStatements(parsed.statements, parsed.statementFideIds);
+    const indexed = options.from ? null : await loadIndexedPromptStatements(options.target);
+    const batchPath = indexed?.batchPath ?? await resolveInputBatchPath(options.from);
+    const statements = indexed?.statements ?? await (async () => {
+      const raw = await readUtf8(batchPath);
+      const parsed = await parseGraphStatementBatchJsonl(raw);
+      return mapToFideIdStatements(parsed.statements, parsed.statementFideIds);
+    })();
 
     const target = statements.find((statement) => statement.statementFideId === options.target) ?? null;
     if (!target) {
@@ -675,6 +616,7 @@ export async function runEvalPrompt(args: string[]): Promise<number> {
     }
 
     const contextStatements = buildPromptContextStatements(target, statements);
+    const vocab = await loadVocabulary();
     const considerations = options.consideration ? [options.consideration] : [...ALL_ATOMIC_CONSIDERATIONS];
 
     const generated: Array<{
@@ -712,7 +654,7 @@ export async function runEvalPrompt(args: string[]): Promise<number> {
           evidence,
           supportingStatements,
           contextStatements,
-          definitionsMarkdownLines: buildDefinitionsMarkdown(currentConsideration),
+          definitionsMarkdownLines: buildDefinitionsMarkdown(currentConsideration, vocab),
         });
         const outPath = defaultEvalPromptAtomicOutPath({
           method: options.method,
@@ -727,7 +669,7 @@ export async function runEvalPrompt(args: string[]): Promise<number> {
             throw new Error(`Unsupported agent: ${options.agent}. Supported: codex`);
           }
           const agentPrompt = buildAgentPrompt(prompt);
-          const draftRoot = resolve(process.cwd(), ".fide", "evals", "drafts");
+          const draftRoot = resolveConfiguredPath("evalDrafts");
           const beforeDrafts = new Set(await collectFilesWithExt(draftRoot, ".md"));
           await runCodexDraft(agentPrompt, {
             method: options.method,
@@ -0,0 +1,86 @@
+import { resolve } from "node:path";
+import { getStringFlag, hasFlag, parseArgs } from "../../../util/args.js";
+import { printJson, writeUtf8 } from "../../../util/io.js";
+import {
+  listStatementBatchPaths,
+  loadStatementBatch,
+  type StoredStatement,
+} from "../../../util/statements/store.js";
+import {
+  RDF_EXPORT_FORMATS,
+  formatStatementsAsRdf,
+  type RdfExportFormat,
+} from "../../../util/statements/targets/output-rdf.js";
+
+function exportHelp(): string {
+  return [
+    "Usage:",
+    "  fide graph export --format <nt|nq|ttl|jsonld> [--in <batch.jsonl>] [--out <path> [--json]] [--no-star]",
+    "",
+    "Notes:",
+    "  - Without --in, every .fide/statements/**/*.jsonl batch is exported (duplicates removed).",
+    "  - Nodes are written as fide DIDs; predicates as full IRIs; literals typed by fcp literal type.",
+    "  - Statements about statements use RDF-star (nt, ttl) or per-statement named graphs (nq, jsonld).",
+    "  - --no-star writes statement subjects as plain DID nodes in nt/ttl output.",
+    "  - Without --out the RDF goes to stdout; --json (a summary of the written file) requires --out.",
+  ].join("\n");
+}
+
+function parseExportFormat(value: string | null): RdfExportFormat {
+  if (value && (RDF_EXPORT_FORMATS as readonly string[]).includes(value)) return value as RdfExportFormat;
+  throw new Error(`Invalid --format value: ${value ?? "(missing)"}. Expected one of: ${RDF_EXPORT_FORMATS.join(", ")}.`);
+}
+
+/**
+ * Export wire batches from the local statement store as standard RDF.
+ */
+export async function runExportCommand(args: string[]): Promise<number> {
+  const { flags } = parseArgs(args);
+  if (hasFlag(flags, "help") || args[0] === "help") {
+    console.log(exportHelp());
+    return 0;
+  }
+
+  const format = parseExportFormat(getStringFlag(flags, "format"));
+  const outPath = getStringFlag(flags, "out");
+  if (hasFlag(flags, "json") && !outPath) {
+    console.error("--json requires --out <path>; without --out the RDF itself is written to stdout.");
+    return 1;
+  }
+  const inPath = getStringFlag(flags, "in");
+  const batchPaths = inPath ? [resolve(process.cwd(), inPath)] : await listStatementBatchPaths();
+  if (batchPaths.length === 0) {
+    console.error("No statement batches found under .fide/statements. Pass --in <batch.jsonl>.");
+    return 1;
+  }
+
+  const statementsById = new Map<string, StoredStatement>();
+  for (const batchPath of batchPaths) {
+    const batch = await loadStatementBatch(batchPath);
+    for (const statement of batch.statements) {
+      if (!statementsById.has(statement.statementFideId)) statementsById.set(statement.statementFideId, statement);
+    }
+  }
+
+  const statements = [...statementsById.values()];
+  const output = formatStatementsAsRdf(statements, format, { star: !hasFlag(flags, "no-star") });
+
+  if (!outPath) {
+    process.stdout.write(output);
+    return 0;
+  }
+
+  await writeUtf8(outPath, output);
+  if (hasFlag(flags, "json")) {
+    printJson({
+      ok: true,
+      format,
+      batchCount: batchPaths.length,
+      statementCount: statements.length,
+      outPath,
+    });
+  } else {
+    console.log(outPath);
+  }
+  return 0;
+}
@@ -1,3 +1,4 @@
+import { runExportCommand } from "./export/index.js";
 import { runIngestCommand } from "./ingest/index.js";
 import { runQueryCommand } from "./query/index.js";
 import { runStatementsCommand } from "./statements/command.js";
@@ -5,9 +6,11 @@ import { runStatementsCommand } from "./statements/command.js";
 function graphHelp(): string {
   return [
     "Usage:",
+    "  fide graph export --format <nt|nq|ttl|jsonld> [--in <batch.jsonl>] [--out <path>]",
     "  fide graph ingest <apply|replay> [flags]",
+    "  fide graph query match [--s <id|raw>] [--p <iri|curie>] [--o <id|raw>] [--limit <n>] [--count] [--json]",
     "  fide graph query sql --sql \"<query>\" [--json] [--allow-write]",
-    "  fide graph statements <add|validate|root> [flags]",
+    "  fide graph statements <add|validate|root|normalize|convert|diff|merge|show|promote> [flags]",
   ].join("\n");
 }
 
@@ -20,6 +23,10 @@ export async function runGraphCommand(command: string | undefined, args: string[
     return 0;
   }
 
+  if (command === "export") {
+    return runExportCommand(args);
+  }
+
   const [subcommand, ...rest] = args;
 
   if (command === "ingest") {
@@ -1,21 +1,28 @@
 import { formatGraphStatementBatchJsonl, parseGraphStatementBatchJsonl } from "@chris-test/graph";
 import { getStringFlag, hasFlag, parseArgs } from "../../../util/args.js";
+import { reportApiError, resolveApiSettings } from "../../../util/api/client.js";
+import { postGraphBatch, postGraphReplay } from "../../../util/api/graph-api.js";
+import { applyGraphBatch, replayGraphLedger, resolveGraphStoreDir, type GraphReplayEntry } from "../../../util/graph/local-store.js";
 import { printJson, readUtf8, writeUtf8 } from "../../../util/io.js";
+import { requireWorkspaceRoot } from "../../../util/workspace.js";
 
 function ingestHelp(): string {
   return [
     "Usage:",
-    "  fide graph ingest apply --in <batch.jsonl> [--out <validated.jsonl>] [--json]",
-    "  fide graph ingest replay --from <batch-root>",
+    "  fide graph ingest apply --in <batch.jsonl> [--out <validated.jsonl>] [--remote [--endpoint <url>]] [--json]",
+    "  fide graph ingest replay [--from <batch-root>] [--remote [--endpoint <url>]] [--json]",
     "",
     "Notes:",
-    "  - apply currently performs local validation/parsing only",
-    "  - replay requires graph API/indexer runtime and is not available yet",
+    "  - apply validates the batch and writes it into the local graph store under .fide/graph/ (statements, subject/predicate/object indexes, ledger.jsonl).",
+    "  - apply is idempotent by batch root: re-applying a root already in the ledger changes nothing.",
+    "  - replay rebuilds .fide/graph/store.json from ledger.jsonl in apply order, checking each batch still hashes to its recorded root; with --from, earlier batches are kept from the current store and only --from onward is re-read.",
+    "  - replay reports ledger batches whose file is missing or whose contents changed, leaves them out of the store, and exits 1.",
+    "  - --remote sends the validated batch (or the replay request) to the graph API instead of the local store; see `fide api --help`.",
   ].join("\n");
 }
 
 /**
- * Apply a statements batch to a graph ingest endpoint.
+ * Apply a statements batch to the local graph store.
  */
 async function runIngestApply(args: string[]): Promise<number> {
   const { flags } = parseArgs(args);
@@ -25,61 +32,114 @@ async function runIngestApply(args: string[]): Promise<number> {
     return 1;
   }
 
+  if (!hasFlag(flags, "remote")) requireWorkspaceRoot();
   const jsonl = await readUtf8(inPath);
-  const parsed = await parseGraphStatementBatchJsonl(jsonl);
-
   const outPath = getStringFlag(flags, "out");
   if (outPath) {
-    const normalized = formatGraphStatementBatchJsonl(parsed.statementWires);
-    await writeUtf8(outPath, normalized);
+    const parsed = await parseGraphStatementBatchJsonl(jsonl);
+    await writeUtf8(outPath, formatGraphStatementBatchJsonl(parsed.statementWires));
   }
+  if (hasFlag(flags, "remote")) return runRemoteApply(flags, jsonl, outPath);
 
+  const applied = await applyGraphBatch(jsonl, inPath);
   const payload = {
     ok: true,
     mode: "apply",
-    root: parsed.root,
-    statementCount: parsed.statementWires.length,
+    root: applied.root,
+    statementCount: applied.statementCount,
+    addedCount: applied.addedCount,
+    alreadyApplied: applied.alreadyApplied,
+    storePath: resolveGraphStoreDir(),
     ...(outPath ? { outPath } : {}),
-    next: "Graph runtime apply is pending API/indexer wiring in fide-internal.",
   };
 
   if (hasFlag(flags, "json")) {
     printJson(payload);
+  } else if (payload.alreadyApplied) {
+    console.log(`already applied root=${payload.root} statementCount=${payload.statementCount}`);
   } else {
     console.log(
-      `validated root=${payload.root} statementCount=${payload.statementCount}${outPath ? ` outPath=${outPath}` : ""}`,
+      `applied root=${payload.root} statementCount=${payload.statementCount} added=${payload.addedCount}${outPath ? ` outPath=${outPath}` : ""}`,
     );
-    console.log(payload.next);
   }
 
   return 0;
 }
 
 /**
- * Replay helper placeholder for ingest workflow.
+ * Validate a batch locally, then POST its canonical wire form to the graph API.
+ */
+async function runRemoteApply(flags: Map<string, string | boolean>, jsonl: string, outPath: string | null): Promise<number> {
+  const json = hasFlag(flags, "json");
+  const settings = resolveApiSettings(flags);
+  if (!settings.ok) return reportApiError("graph ingest apply", settings.error, json);
+  const parsed = await parseGraphStatementBatchJsonl(jsonl);
+  const result = await postGraphBatch(settings.data, formatGraphStatementBatchJsonl(parsed.statementWires));
+  if (!result.ok) return reportApiError("graph ingest apply", result.error, json);
+
+  const payload = {
+    ok: true,
+    mode: "apply",
+    remote: true,
+    endpoint: settings.data.endpoint,
+    attempts: result.attempts,
+    ...result.data,
+    ...(outPath ? { outPath } : {}),
+  };
+  if (json) {
+    printJson(payload);
+  } else if (payload.alreadyApplied) {
+    console.log(`already applied root=${payload.root} statementCount=${payload.statementCount} endpoint=${payload.endpoint}`);
+  } else {
+    console.log(`applied root=${payload.root} statementCount=${payload.statementCount} added=${payload.addedCount} endpoint=${payload.endpoint}`);
+  }
+  return 0;
+}
+
+/**
+ * Rebuild the local graph store from the ingest ledger, re-verifying each batch root.
  */
-function runIngestReplay(args: string[]): number {
+async function runIngestReplay(args: string[]): Promise<number> {
   const { flags } = parseArgs(args);
-  const root = getStringFlag(flags, "from");
-  if (!root) {
-    console.error("Missing required flag: --from <batch-root>");
+  const fromRoot = getStringFlag(flags, "from");
+  if (hasFlag(flags, "from") && !fromRoot) {
+    console.error("Missing value for --from <batch-root>");
     return 1;
   }
 
+  let results: GraphReplayEntry[];
+  if (hasFlag(flags, "remote")) {
+    const settings = resolveApiSettings(flags);
+    if (!settings.ok) return reportApiError("graph ingest replay", settings.error, hasFlag(flags, "json"));
+    const remote = await postGraphReplay(settings.data, fromRoot);
+    if (!remote.ok) return reportApiError("graph ingest replay", remote.error, hasFlag(flags, "json"));
+    results = remote.data.batches;
+  } else {
+    requireWorkspaceRoot();
+    results = await replayGraphLedger(fromRoot);
+  }
+  const problems = results.filter((result) => result.message !== null);
   const payload = {
-    ok: false,
+    ok: problems.length === 0,
     mode: "replay",
-    root,
-    error: "`fide graph ingest replay` is not available until graph API/indexer runtime is wired.",
+    remote: hasFlag(flags, "remote"),
+    from: fromRoot,
+    batchCount: results.length,
+    replayedCount: results.filter((result) => result.status === "replayed").length,
+    problemCount: problems.length,
+    batches: results,
   };
 
   if (hasFlag(flags, "json")) {
     printJson(payload);
   } else {
-    console.error(payload.error);
+    for (const problem of problems) {
+      console.error(`${problem.status} root=${problem.root}: ${problem.message}`);
+    }
+    console.log(`replayed ${payload.replayedCount} of ${payload.batchCount} ledger batches${problems.length > 0 ? ` (${problems.length} skipped)` : ""}`);
   }
 
-  return 1;
+  return problems.length === 0 ? 0 : 1;
 }
 
 /**
@@ -1,44 +1,105 @@
-import { hasFlag, parseArgs } from "../../../util/args.js";
+import { getStringFlag, hasFlag, parseArgs } from "../../../util/args.js";
+import { reportApiError, resolveApiSettings } from "../../../util/api/client.js";
+import { postGraphSql } from "../../../util/api/graph-api.js";
+import { formatMatchSourceNote, resolveDefaultMatchSource, type MatchSource } from "../../../util/graph/match.js";
+import { openStatementsDatabase, runStatementsSql, type SqlQueryResult } from "../../../util/graph/sql.js";
 import { printJson } from "../../../util/io.js";
+import { formatTextTable } from "../../../util/table.js";
+import { requireWorkspaceRoot } from "../../../util/workspace.js";
+import { runQueryMatch } from "./match.js";
 
 function queryHelp(): string {
   return [
     "Usage:",
-    "  fide graph query sql --sql \"<query>\" [--json]",
+    "  fide graph query match [--s <fideId|raw>] [--p <iri|curie|fideId>] [--o <fideId|raw>] [--source <store|batches>] [--format <table|jsonl>] [--limit <n>] [--count] [--remote] [--json]",
+    "  fide graph query sql --sql \"<query>\" [--source <store|batches>] [--allow-write] [--remote] [--json]",
     "",
     "Notes:",
-    "  - direct SQL execution is disabled in this CLI",
-    "  - use graph API endpoints once apps/api graph routes are wired",
+    "  - match leaves omitted positions (or ?, *, _) as wildcards; subject/object match a fide id or raw identifier.",
+    "  - match and sql read the local graph store (.fide/graph) once something has been ingested, otherwise the batches under .fide/statements; --source overrides. Table output names the source it read.",
+    "  - sql loads statements into an in-memory SQLite database (node:sqlite, Node.js 22.13+) with one table:",
+    "      statements(statement_id, subject_id, subject_raw, subject_entity_type, subject_source_type,",
+    "                 predicate_id, predicate_raw, object_id, object_raw, object_entity_type, object_source_type, batch_root)",
+    "  - sql is read-only unless --allow-write; writes only change the in-memory copy, never .fide.",
+    "  - --remote runs the query against the graph API instead (see `fide api --help`); --endpoint <url> overrides the configured endpoint.",
   ].join("\n");
 }
 
+function printSqlResult(source: MatchSource | "remote", defaulted: boolean, result: SqlQueryResult, json: boolean): void {
+  if (json) {
+    printJson({ ok: true, source, rowCount: result.rows.length, columns: result.columns, rows: result.rows });
+    return;
+  }
+  if (result.rows.length > 0) {
+    console.log(formatTextTable(result.columns, result.rows.map((row) => result.columns.map((column) => String(row[column] ?? "NULL")))));
+  }
+  console.log(`(${result.rows.length} row${result.rows.length === 1 ? "" : "s"}; ${formatMatchSourceNote(source, defaulted)})`);
+}
+
 /**
- * Route `fide graph query` command variants.
+ * Run `--sql` against the local statements loaded into an in-memory SQLite database.
  */
-export async function runQueryCommand(command: string | undefined, args: string[]): Promise<number> {
-  if (!command || command === "--help" || command === "-h" || command === "help") {
+async function runQuerySql(args: string[]): Promise<number> {
+  const { flags } = parseArgs(args);
+  if (hasFlag(flags, "help")) {
     console.log(queryHelp());
     return 0;
   }
+  const sql = getStringFlag(flags, "sql");
+  if (!sql) {
+    console.error("Missing required flag: --sql \"<query>\"");
+    return 1;
+  }
+  const sourceRaw = getStringFlag(flags, "source");
+  if (sourceRaw && sourceRaw !== "store" && sourceRaw !== "batches") {
+    console.error(`Invalid --source: ${sourceRaw}. Use store or batches.`);
+    return 1;
+  }
+
+  if (hasFlag(flags, "remote")) {
+    const settings = resolveApiSettings(flags);
+    if (!settings.ok) return reportApiError("graph query sql", settings.error, hasFlag(flags, "json"));
+    const remote = await postGraphSql(settings.data, sql, hasFlag(flags, "allow-write"));
+    if (!remote.ok) return reportApiError("graph query sql", remote.error, hasFlag(flags, "json"));
+    printSqlResult("remote", false, remote.data, hasFlag(flags, "json"));
+    return 0;
+  }
 
-  if (command !== "sql") {
-    console.error(`Unknown graph query command: ${command}`);
-    console.error(queryHelp());
+  requireWorkspaceRoot();
+
+  const source = (sourceRaw as MatchSource | null) ?? resolveDefaultMatchSource();
+  let result: SqlQueryResult;
+  try {
+    const db = await openStatementsDatabase(source, hasFlag(flags, "allow-write"));
+    try {
+      result = runStatementsSql(db, sql);
+    } finally {
+      db.close();
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (hasFlag(flags, "json")) printJson({ ok: false, command: "graph query sql", error: message });
+    else console.error(message);
     return 1;
   }
 
-  const { flags } = parseArgs(args);
-  const payload = {
-    ok: false,
-    command: "graph query sql",
-    error: "Direct SQL query is not available in this CLI. Use graph API query endpoints.",
-  };
+  printSqlResult(source, !sourceRaw, result, hasFlag(flags, "json"));
+  return 0;
+}
 
-  if (hasFlag(flags, "json")) {
-    printJson(payload);
-  } else {
-    console.error(payload.error);
+/**
+ * Route `fide graph query` command variants.
+ */
+export async function runQueryCommand(command: string | undefined, args: string[]): Promise<number> {
+  if (!command || command === "--help" || command === "-h" || command === "help") {
+    console.log(queryHelp());
+    return 0;
   }
 
+  if (command === "match") return runQueryMatch(args);
+  if (command === "sql") return runQuerySql(args);
+
+  console.error(`Unknown graph query command: ${command}`);
+  console.error(queryHelp());
   return 1;
 }
@@ -0,0 +1,130 @@
+import { compactPredicateRawIdentifier } from "@chris-test/fcp";
+import { getStringFlag, hasFlag, parseArgs } from "../../../util/args.js";
+import { reportApiError, resolveApiSettings } from "../../../util/api/client.js";
+import { fetchGraphMatch } from "../../../util/api/graph-api.js";
+import { printJson } from "../../../util/io.js";
+import {
+  formatMatchSourceNote,
+  matchTriplePattern,
+  readPatternTerm,
+  resolveDefaultMatchSource,
+  type MatchSource,
+} from "../../../util/graph/match.js";
+import { expandCurie, loadWorkspacePrefixes } from "../../../util/statements/prefixes.js";
+import type { StoredStatement } from "../../../util/statements/store.js";
+import { formatTextTable } from "../../../util/table.js";
+import { requireWorkspaceRoot } from "../../../util/workspace.js";
+
+const MATCH_FORMATS = ["table", "jsonl"] as const;
+type MatchFormat = (typeof MATCH_FORMATS)[number];
+
+function matchHelp(): string {
+  return [
+    "Usage: fide graph query match [--s <fideId|raw>] [--p <iri|curie|fideId>] [--o <fideId|raw>] [--source <store|batches>] [--format <table|jsonl>] [--limit <n>] [--count] [--remote [--endpoint <url>]] [--json]",
+    "  Local queries stop reading at --limit, so `count` is null when more statements match; --count always reads them all.",
+  ].join("\n");
+}
+
+function formatTable(statements: StoredStatement[]): string {
+  return formatTextTable(
+    ["subject", "predicate", "object", "statement"],
+    statements.map((statement) => [
+      statement.subjectRawIdentifier,
+      compactPredicateRawIdentifier(statement.predicateRawIdentifier),
+      statement.objectRawIdentifier,
+      statement.statementFideId,
+    ]),
+  );
+}
+
+/**
+ * Match a triple pattern (any position may be a wildcard) against the local graph store or workspace batches.
+ */
+export async function runQueryMatch(args: string[]): Promise<number> {
+  const { flags } = parseArgs(args);
+  if (hasFlag(flags, "help")) {
+    console.log(matchHelp());
+    return 0;
+  }
+
+  const sourceRaw = getStringFlag(flags, "source");
+  if (sourceRaw && sourceRaw !== "store" && sourceRaw !== "batches") {
+    console.error(`Invalid --source: ${sourceRaw}. Use store or batches.`);
+    return 1;
+  }
+  const formatRaw = getStringFlag(flags, "format") ?? "table";
+  if (!(MATCH_FORMATS as readonly string[]).includes(formatRaw)) {
+    console.error(`Invalid --format: ${formatRaw}. Use one of: ${MATCH_FORMATS.join(", ")}.`);
+    return 1;
+  }
+  const format = formatRaw as MatchFormat;
+  const limitRaw = getStringFlag(flags, "limit");
+  const limit = limitRaw === null ? null : Number(limitRaw);
+  if (limit !== null && (!Number.isInteger(limit) || limit < 1)) {
+    console.error(`Invalid --limit: ${limitRaw}. Use a positive integer.`);
+    return 1;
+  }
+
+  const remote = hasFlag(flags, "remote");
+  if (!remote) requireWorkspaceRoot();
+  const predicate = readPatternTerm(getStringFlag(flags, "p"));
+  const expandedPredicate = predicate ? expandCurie(predicate, await loadWorkspacePrefixes()) : null;
+  if (expandedPredicate && "error" in expandedPredicate) {
+    console.error(expandedPredicate.error);
+    return 1;
+  }
+  const pattern = {
+    s: readPatternTerm(getStringFlag(flags, "s")),
+    p: expandedPredicate ? expandedPredicate.value : null,
+    o: readPatternTerm(getStringFlag(flags, "o")),
+  };
+
+  let source: MatchSource | "remote";
+  let count: number | null;
+  let statements: StoredStatement[];
+  if (remote) {
+    const settings = resolveApiSettings(flags);
+    if (!settings.ok) return reportApiError("graph query match", settings.error, hasFlag(flags, "json"));
+    const result = await fetchGraphMatch(settings.data, pattern, limit);
+    if (!result.ok) return reportApiError("graph query match", result.error, hasFlag(flags, "json"));
+    source = "remote";
+    count = result.data.count;
+    statements = result.data.statements;
+  } else {
+    source = (sourceRaw as MatchSource | null) ?? resolveDefaultMatchSource();
+    // Read one match past --limit to know whether more exist, unless --count needs the total.
+    const readLimit = limit === null || hasFlag(flags, "count") ? null : limit + 1;
+    const matches = await matchTriplePattern(pattern, source, readLimit);
+    count = readLimit !== null && matches.length === readLimit ? null : matches.length;
+    statements = limit === null ? matches : matches.slice(0, limit);
+  }
+  const sourceNote = formatMatchSourceNote(source, source !== "remote" && !sourceRaw);
+
+  if (hasFlag(flags, "count")) {
+    if (hasFlag(flags, "json")) printJson({ ok: true, source, pattern, count });
+    else console.log(String(count));
+    return 0;
+  }
+  if (hasFlag(flags, "json")) {
+    printJson({ ok: true, source, pattern, count, returned: statements.length, statements });
+    return 0;
+  }
+  if (format === "jsonl") {
+    for (const statement of statements) console.log(JSON.stringify(statement));
+    return 0;
+  }
+  if (statements.length === 0) {
+    console.log("No matching statements.");
+    console.log(`(${sourceNote})`);
+    return 0;
+  }
+  console.log(formatTable(statements));
+  if (count === null) {
+    console.log(`(first ${statements.length} shown; raise --limit for more, or use --count for the total; ${sourceNote})`);
+  } else if (statements.length < count) {
+    console.log(`(${statements.length} of ${count} shown; raise --limit for more; ${sourceNote})`);
+  } else {
+    console.log(`(${sourceNote})`);
+  }
+  return 0;
+}
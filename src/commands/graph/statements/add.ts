@@ -1,37 +1,30 @@
-import { existsSync } from "node:fs";
 import { mkdir } from "node:fs/promises";
 import { resolve } from "node:path";
-import { buildStatementsWithRoot, statementDoc } from "@chris-test/graph";
-import { parseFideId, type StatementInput } from "@chris-test/fcp";
+import { buildStatementsWithRoot } from "@chris-test/graph";
+import type { StatementInput } from "@chris-test/fcp";
 import { getStringFlag, hasFlag } from "../../../util/args.js";
+import { resolveConfiguredPath, resolveInputFormatSetting, resolveNormalizeSetting } from "../../../util/config.js";
 import { printJson, readUtf8, writeUtf8 } from "../../../util/io.js";
 import { statementsHelp } from "./help.js";
 import {
   detectStatementsInputFormat,
   parseStatementsInputFormat,
 } from "../../../util/statements/shared.js";
-import { mapSingleStatementInput, parseStatementInputsByFormat } from "../../../util/statements/targets/parse-inputs.js";
-
-/**
- * Resolve project statements output directory under `.fide/statements`.
- */
-function resolveStatementsDir(): string {
-  const cwd = process.cwd();
-  const fideDir = resolve(cwd, ".fide");
-  if (!existsSync(fideDir)) {
-    throw new Error("No .fide folder found in current directory. Run this command from your project root or run `fide init` first.");
-  }
-  return resolve(fideDir, "statements");
-}
-
-/**
- * Format a date as UTC year/month/day path segments.
- */
-function ymdUtc(date: Date): { yyyy: string; mm: string; dd: string } {
-  const iso = date.toISOString().slice(0, 10);
-  const [yyyy, mm, dd] = iso.split("-");
-  return { yyyy, mm, dd };
-}
+import { checkReferenceTypes } from "../../../util/statements/fcp-types.js";
+import { mapBatchStatementsToStatementInputs } from "../../../util/statements/targets/batch-inputs.js";
+import { formatStatementDocInputs } from "../../../util/statements/targets/input-statement-doc.js";
+import {
+  mapSingleStatementInput,
+  parseStatementInputsByFormat,
+  readStatementsParseOptions,
+} from "../../../util/statements/targets/parse-inputs.js";
+import { resolveStatementBatchOutPath, ymdUtc } from "../../../util/statements/store.js";
+import { formatStatementsAsWireJsonl } from "../../../util/statements/targets/wire.js";
+import {
+  findCommittedStatements,
+  openWorkspaceIndex,
+  updateWorkspaceIndexForBatch,
+} from "../../../util/statements/workspace-index.js";
 
 /**
  * Read all UTF-8 content from stdin.
@@ -64,12 +57,17 @@ export async function runStatementsAdd(flags: Map<string, string | boolean>): Pr
   const objectType = getStringFlag(flags, "object-type");
   const objectSource = getStringFlag(flags, "object-source");
   const formatFlag = parseStatementsInputFormat(getStringFlag(flags, "format"));
-  const normalize = !hasFlag(flags, "no-normalize");
+  const normalize = resolveNormalizeSetting(flags);
   const draftMode = hasFlag(flags, "draft");
   if (hasFlag(flags, "out")) {
     throw new Error("`graph statements add` no longer accepts --out. Output path is auto-generated.");
   }
+  if (hasFlag(flags, "skip-existing") && hasFlag(flags, "fail-on-existing")) {
+    throw new Error("Use either --skip-existing or --fail-on-existing, not both.");
+  }
+  const existingMode = hasFlag(flags, "skip-existing") ? "skip" : hasFlag(flags, "fail-on-existing") ? "fail" : "warn";
 
+  const parseOptions = await readStatementsParseOptions(flags);
   let statementInputs: StatementInput[] = [];
   if (inPath && useStdin) {
     throw new Error("Use either --in or --stdin, not both.");
@@ -77,18 +75,26 @@ export async function runStatementsAdd(flags: Map<string, string | boolean>): Pr
 
   if (inPath) {
     const raw = await readUtf8(inPath);
-    const format = formatFlag ?? detectStatementsInputFormat(raw);
-    statementInputs = parseStatementInputsByFormat(raw, format);
+    const format = resolveInputFormatSetting(formatFlag, raw) ?? detectStatementsInputFormat(raw);
+    statementInputs = parseStatementInputsByFormat(raw, format, parseOptions);
   } else if (useStdin) {
     const raw = await readStdinUtf8();
-    const format = formatFlag ?? detectStatementsInputFormat(raw);
-    statementInputs = parseStatementInputsByFormat(raw, format);
+    const format = resolveInputFormatSetting(formatFlag, raw) ?? detectStatementsInputFormat(raw);
+    statementInputs = parseStatementInputsByFormat(raw, format, parseOptions);
   } else {
     if (!subject || !subjectType || !subjectSource || !predicate || !object || !objectType || !objectSource) {
       console.error("Missing required flags for `graph statements add`.");
       console.error(statementsHelp());
       return 1;
     }
+    const typeProblems = [
+      ...checkReferenceTypes(subjectType, subjectSource, { entityType: "--subject-type", sourceType: "--subject-source" }),
+      ...checkReferenceTypes(objectType, objectSource, { entityType: "--object-type", sourceType: "--object-source" }),
+    ];
+    if (typeProblems.length > 0) {
+      for (const problem of typeProblems) console.error(problem.message);
+      return 1;
+    }
     statementInputs = [mapSingleStatementInput({
       subject,
       subjectType,
@@ -97,59 +103,71 @@ export async function runStatementsAdd(flags: Map<string, string | boolean>): Pr
       object,
       objectType,
       objectSource,
-    })];
+    }, parseOptions.prefixes)];
+  }
+
+  let batch = await buildStatementsWithRoot(statementInputs, { normalizeRawIdentifier: normalize });
+  const existing = findCommittedStatements(
+    await openWorkspaceIndex(),
+    batch.statements.map((statement) => statement.statementFideId),
+  );
+  if (existing.length > 0 && existingMode === "fail") {
+    if (hasFlag(flags, "json")) {
+      printJson({ ok: false, error: "existing-statements", existing });
+    } else {
+      for (const item of existing) console.error(`${item.statementFideId} already exists in ${item.batchPath}`);
+      console.error(`${existing.length} of ${batch.statements.length} statements already exist; nothing written (--fail-on-existing).`);
+    }
+    return 1;
+  }
+  if (existing.length > 0 && existingMode === "skip") {
+    const existingIds = new Set(existing.map((item) => item.statementFideId));
+    const remaining = batch.statements.filter((statement) => !existingIds.has(statement.statementFideId));
+    if (remaining.length === 0) {
+      if (hasFlag(flags, "json")) {
+        printJson({
+          ok: true,
+          root: null,
+          statementCount: 0,
+          mode: draftMode ? "draft" : "batch",
+          outPath: null,
+          statementFideIds: [],
+          existing,
+          skippedCount: existing.length,
+        });
+      } else {
+        console.error(`All ${existing.length} statements already exist; nothing written.`);
+      }
+      return 0;
+    }
+    // Remaining statements are already canonical; re-normalizing could change their fide ids.
+    batch = await buildStatementsWithRoot(mapBatchStatementsToStatementInputs(remaining), { normalizeRawIdentifier: false });
+  }
+  if (existing.length > 0 && existingMode === "warn" && !hasFlag(flags, "json")) {
+    for (const item of existing) console.error(`warning: ${item.statementFideId} already exists in ${item.batchPath}`);
+    console.error("Use --skip-existing to leave them out or --fail-on-existing to stop.");
   }
 
-  const batch = await buildStatementsWithRoot(statementInputs, { normalizeRawIdentifier: normalize });
   const outPath = (() => {
     const { yyyy, mm, dd } = ymdUtc(new Date());
     if (draftMode) {
-      return resolve(process.cwd(), ".fide", "statement-drafts", yyyy, mm, dd, `${batch.root}.md`);
+      return resolve(resolveConfiguredPath("statementDrafts"), yyyy, mm, dd, `${batch.root}.md`);
     }
-    return resolve(resolveStatementsDir(), yyyy, mm, dd, `${batch.root}.jsonl`);
+    return resolveStatementBatchOutPath(batch.root);
   })();
 
   let output: string;
   if (draftMode) {
-    const normalizedInputs: StatementInput[] = batch.statements.map((statement) => ({
-      subject: {
-        rawIdentifier: statement.subjectRawIdentifier,
-        entityType: parseFideId(statement.subjectFideId).entityType,
-        sourceType: parseFideId(statement.subjectFideId).sourceType,
-      },
-      predicate: {
-        rawIdentifier: statement.predicateRawIdentifier,
-        entityType: "Concept",
-        sourceType: "NetworkResource",
-      },
-      object: {
-        rawIdentifier: statement.objectRawIdentifier,
-        entityType: parseFideId(statement.objectFideId).entityType,
-        sourceType: parseFideId(statement.objectFideId).sourceType,
-      },
-    }));
-
-    const baseDoc = statementDoc.v0.formatStatementInputsAsStatementDoc(normalizedInputs, {
-      defaults: {
-        subject: { sourceType: "NetworkResource" },
-        object: { sourceType: "NetworkResource" },
-      },
-    });
-    output = baseDoc.replace(/^---\n/, "---\ntype: fide-statements\nversion: v0\n");
+    output = formatStatementDocInputs(mapBatchStatementsToStatementInputs(batch.statements));
   } else {
-    const wires = batch.statements.map((statement) => ({
-      s: statement.subjectFideId,
-      sr: statement.subjectRawIdentifier,
-      p: statement.predicateFideId,
-      pr: statement.predicateRawIdentifier,
-      o: statement.objectFideId,
-      or: statement.objectRawIdentifier,
-    }));
-    output = `${wires.map((wire) => JSON.stringify(wire)).join("\n")}\n`;
+    output = formatStatementsAsWireJsonl(batch.statements);
   }
 
   await mkdir(resolve(outPath, ".."), { recursive: true });
   await writeUtf8(outPath, output);
+  if (!draftMode) {
+    await updateWorkspaceIndexForBatch(outPath);
+  }
 
   const payload = {
     ok: true,
@@ -158,6 +176,8 @@ export async function runStatementsAdd(flags: Map<string, string | boolean>): Pr
     mode: draftMode ? "draft" : "batch",
     outPath,
     statementFideIds: batch.statements.map((statement) => statement.statementFideId),
+    existing,
+    skippedCount: existingMode === "skip" ? existing.length : 0,
   };
   if (hasFlag(flags, "json")) {
     printJson(payload);
@@ -1,7 +1,13 @@
 import { parseArgs } from "../../../util/args.js";
 import { runStatementsAdd } from "./add.js";
+import { runStatementsConvert } from "./convert.js";
+import { runStatementsDiff } from "./diff.js";
 import { statementsHelp } from "./help.js";
+import { runStatementsMerge } from "./merge.js";
+import { runStatementsNormalize } from "./normalize.js";
+import { runStatementsPromote } from "./promote.js";
 import { runStatementsRoot } from "./root.js";
+import { runStatementsShow } from "./show.js";
 import { runStatementsValidate } from "./validate.js";
 
 /**
@@ -20,6 +26,12 @@ export async function runStatementCommand(command: string | undefined, args: str
 
   if (command === "validate") return runStatementsValidate(args);
   if (command === "root") return runStatementsRoot(args);
+  if (command === "normalize") return runStatementsNormalize(args);
+  if (command === "convert") return runStatementsConvert(args);
+  if (command === "diff") return runStatementsDiff(args);
+  if (command === "merge") return runStatementsMerge(args);
+  if (command === "show") return runStatementsShow(args);
+  if (command === "promote") return runStatementsPromote(args);
 
   console.error(`Unknown statement command: ${command}`);
   console.error(statementsHelp());
@@ -0,0 +1,104 @@
+import { buildStatementsWithRoot } from "@chris-test/graph";
+import type { StatementInput } from "@chris-test/fcp";
+import { getStringFlag, hasFlag, parseArgs } from "../../../util/args.js";
+import { resolveInputFormatSetting, resolveNormalizeSetting } from "../../../util/config.js";
+import { printJson, readUtf8, writeUtf8 } from "../../../util/io.js";
+import {
+  detectStatementsInputFormat,
+  getRequiredBatchInputPath,
+  isGraphStatementWireJsonl,
+  parseStatementsInputFormat,
+  parseStatementsOutputFormat,
+  type StatementsConvertInputFormat,
+  type StatementsConvertOutputFormat,
+} from "../../../util/statements/shared.js";
+import { formatStatementInputsByFormat } from "../../../util/statements/targets/format-inputs.js";
+import {
+  parseStatementInputsByFormat,
+  readStatementsParseOptions,
+  type StatementsParseOptions,
+} from "../../../util/statements/targets/parse-inputs.js";
+import { formatStatementsAsWireJsonl, parseWireInputs } from "../../../util/statements/targets/wire.js";
+
+function convertHelp(): string {
+  return "Usage: fide graph statements convert --in <input> --to <json|jsonl|fsd|wire> [--format <json|jsonl|fsd|nt|ttl|jsonld|csv|tsv|wire>] [--out <path>] [--no-normalize] [--json]";
+}
+
+/**
+ * Auto-detect convert input format, telling wire batches apart from jsonl statement rows.
+ */
+function detectConvertInputFormat(raw: string): StatementsConvertInputFormat {
+  const format = detectStatementsInputFormat(raw);
+  if (format === "jsonl" && isGraphStatementWireJsonl(raw)) return "wire";
+  return format;
+}
+
+/**
+ * Read statement inputs from any convertible format.
+ */
+async function readConvertInputs(
+  raw: string,
+  format: StatementsConvertInputFormat,
+  options: StatementsParseOptions,
+): Promise<StatementInput[]> {
+  if (format === "wire") return (await parseWireInputs(raw)).inputs;
+  return parseStatementInputsByFormat(raw, format, options);
+}
+
+/**
+ * Convert statement inputs and graph wire batches between formats.
+ */
+export async function runStatementsConvert(args: string[]): Promise<number> {
+  const { flags } = parseArgs(args);
+  if (hasFlag(flags, "help")) {
+    console.log(convertHelp());
+    return 0;
+  }
+  const inPath = getRequiredBatchInputPath(flags);
+  if (!inPath) return 1;
+  const toFlag = getStringFlag(flags, "to");
+  const to: StatementsConvertOutputFormat | null = toFlag === "wire" ? "wire" : parseStatementsOutputFormat(toFlag);
+  if (!to) {
+    console.error("Missing required flag: --to <json|jsonl|fsd|wire>");
+    return 1;
+  }
+
+  const raw = await readUtf8(inPath);
+  const formatFlag = getStringFlag(flags, "format");
+  const explicitFormat = parseStatementsInputFormat(formatFlag);
+  const from: StatementsConvertInputFormat = formatFlag === "wire" || (!explicitFormat && isGraphStatementWireJsonl(raw))
+    ? "wire"
+    : resolveInputFormatSetting(explicitFormat, raw) ?? detectConvertInputFormat(raw);
+  const inputs = await readConvertInputs(raw, from, await readStatementsParseOptions(flags));
+
+  let output: string;
+  let root: string | null = null;
+  if (to === "wire") {
+    const batch = await buildStatementsWithRoot(inputs, { normalizeRawIdentifier: resolveNormalizeSetting(flags) });
+    output = formatStatementsAsWireJsonl(batch.statements);
+    root = batch.root;
+  } else {
+    output = formatStatementInputsByFormat(inputs, to);
+  }
+
+  const outPath = getStringFlag(flags, "out");
+  if (outPath) {
+    await writeUtf8(outPath, output);
+  }
+
+  if (hasFlag(flags, "json")) {
+    printJson({
+      ok: true,
+      from,
+      to,
+      statementCount: inputs.length,
+      ...(root ? { root } : {}),
+      ...(outPath ? { outPath } : { output }),
+    });
+  } else if (outPath) {
+    console.log(outPath);
+  } else {
+    process.stdout.write(output);
+  }
+  return 0;
+}
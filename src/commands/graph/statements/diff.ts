@@ -0,0 +1,113 @@
+import { getStringFlag, hasFlag, parseArgs } from "../../../util/args.js";
+import { resolveInputFormatSetting, resolveNormalizeSetting } from "../../../util/config.js";
+import { printJson, readUtf8 } from "../../../util/io.js";
+import { parseStatementsInputFormat } from "../../../util/statements/shared.js";
+import type { StoredStatement } from "../../../util/statements/store.js";
+import { readStatementsParseOptions } from "../../../util/statements/targets/parse-inputs.js";
+import { resolveBatchFromInput } from "../../../util/statements/targets/resolve-batch.js";
+
+type DriftChange = {
+  position: "subject" | "predicate" | "object";
+  before: string;
+  after: string;
+};
+
+type DriftItem = {
+  statementFideId: string;
+  changes: DriftChange[];
+};
+
+function diffHelp(): string {
+  return "Usage: fide graph statements diff <before> <after> [--format <json|jsonl|fsd|nt|ttl|jsonld|csv|tsv>] [--json]";
+}
+
+function toStatementRow(statement: StoredStatement) {
+  return {
+    statementFideId: statement.statementFideId,
+    subject: statement.subjectRawIdentifier,
+    predicate: statement.predicateRawIdentifier,
+    object: statement.objectRawIdentifier,
+  };
+}
+
+/**
+ * Find raw identifier changes between two statements that share a statement fide id.
+ */
+function diffRawIdentifiers(before: StoredStatement, after: StoredStatement): DriftChange[] {
+  const pairs = [
+    ["subject", before.subjectRawIdentifier, after.subjectRawIdentifier],
+    ["predicate", before.predicateRawIdentifier, after.predicateRawIdentifier],
+    ["object", before.objectRawIdentifier, after.objectRawIdentifier],
+  ] as const;
+  return pairs
+    .filter(([, from, to]) => from !== to)
+    .map(([position, from, to]) => ({ position, before: from, after: to }));
+}
+
+/**
+ * Compare two batches or statement inputs by statement fide id.
+ */
+export async function runStatementsDiff(args: string[]): Promise<number> {
+  const { positionals, flags } = parseArgs(args);
+  if (hasFlag(flags, "help")) {
+    console.log(diffHelp());
+    return 0;
+  }
+  const [beforePath, afterPath] = positionals;
+  if (!beforePath || !afterPath) {
+    console.error("Missing inputs: fide graph statements diff <before> <after>");
+    return 1;
+  }
+
+  const formatFlag = parseStatementsInputFormat(getStringFlag(flags, "format"));
+  const parseOptions = { normalizeRawIdentifier: resolveNormalizeSetting(flags), ...await readStatementsParseOptions(flags) };
+  const beforeRaw = await readUtf8(beforePath);
+  const afterRaw = await readUtf8(afterPath);
+  const before = await resolveBatchFromInput(beforeRaw, { format: resolveInputFormatSetting(formatFlag, beforeRaw), ...parseOptions });
+  const after = await resolveBatchFromInput(afterRaw, { format: resolveInputFormatSetting(formatFlag, afterRaw), ...parseOptions });
+
+  const beforeById = new Map(before.statements.map((statement) => [statement.statementFideId, statement]));
+  const afterById = new Map(after.statements.map((statement) => [statement.statementFideId, statement]));
+
+  const added = after.statements.filter((statement) => !beforeById.has(statement.statementFideId));
+  const removed = before.statements.filter((statement) => !afterById.has(statement.statementFideId));
+  const drift: DriftItem[] = [];
+  for (const statement of after.statements) {
+    const previous = beforeById.get(statement.statementFideId);
+    if (!previous) continue;
+    const changes = diffRawIdentifiers(previous, statement);
+    if (changes.length > 0) drift.push({ statementFideId: statement.statementFideId, changes });
+  }
+
+  const payload = {
+    ok: true,
+    before: { path: beforePath, root: before.root, statementCount: before.statementCount },
+    after: { path: afterPath, root: after.root, statementCount: after.statementCount },
+    unchangedCount: after.statements.length - added.length,
+    added: added.map(toStatementRow),
+    removed: removed.map(toStatementRow),
+    drift,
+  };
+
+  if (hasFlag(flags, "json")) {
+    printJson(payload);
+    return 0;
+  }
+
+  for (const row of payload.added) {
+    console.log(`+ ${row.statementFideId}  ${row.subject} ${row.predicate} ${row.object}`);
+  }
+  for (const row of payload.removed) {
+    console.log(`- ${row.statementFideId}  ${row.subject} ${row.predicate} ${row.object}`);
+  }
+  for (const item of drift) {
+    console.log(`~ ${item.statementFideId}  raw identifier changed, fide id unchanged`);
+    for (const change of item.changes) {
+      console.log(`    ${change.position}: ${change.before} -> ${change.after}`);
+    }
+  }
+  console.log(
+    `before=${before.root} after=${after.root} added=${added.length} removed=${removed.length} drift=${drift.length} unchanged=${payload.unchangedCount}`,
+  );
+  return 0;
+}
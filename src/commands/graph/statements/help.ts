@@ -1,17 +1,36 @@
 export function statementsHelp(): string {
   return [
     "Usage:",
-    "  fide graph statements add --subject <raw> --subject-type <type> --subject-source <type> --predicate <iri> --object <raw> --object-type <type> --object-source <type> [--no-normalize] [--json]",
-    "  fide graph statements add --in <inputs> [--format <json|jsonl|fsd>] [--no-normalize] [--json] [--draft]",
-    "  fide graph statements add --stdin [--format <json|jsonl|fsd>] [--no-normalize] [--json] [--draft]",
-    "  fide graph statements validate --in <input> [--format <json|jsonl|fsd>] [--json]",
-    "  fide graph statements root --in <input> [--format <json|jsonl|fsd>]",
+    "  fide graph statements add --subject <raw> --subject-type <type> --subject-source <type> --predicate <iri> --object <raw> --object-type <type> --object-source <type> [--no-normalize] [--skip-existing|--fail-on-existing] [--json]",
+    "  fide graph statements add --in <inputs> [--format <json|jsonl|fsd|nt|ttl|jsonld|csv|tsv>] [--no-normalize] [--skip-existing|--fail-on-existing] [--json] [--draft]",
+    "  fide graph statements add --stdin [--format <json|jsonl|fsd|nt|ttl|jsonld|csv|tsv>] [--no-normalize] [--skip-existing|--fail-on-existing] [--json] [--draft]",
+    "  fide graph statements validate --in <input> [--format <json|jsonl|fsd|nt|ttl|jsonld|csv|tsv>] [--shapes <file|dir>] [--vocab] [--json]",
+    "  fide graph statements root --in <input> [--format <json|jsonl|fsd|nt|ttl|jsonld|csv|tsv>]",
+    "  fide graph statements normalize --in <input> [--format <json|jsonl|fsd|nt|ttl|jsonld|csv|tsv>] [--to <json|jsonl|fsd>] [--in-place | --out <path>] [--json]",
+    "  fide graph statements convert --in <input> --to <json|jsonl|fsd|wire> [--format <json|jsonl|fsd|nt|ttl|jsonld|csv|tsv|wire>] [--out <path>] [--no-normalize] [--json]",
+    "  fide graph statements diff <before> <after> [--format <json|jsonl|fsd|nt|ttl|jsonld|csv|tsv>] [--json]",
+    "  fide graph statements merge (--in <batch.jsonl> [--in <batch.jsonl> ...] | --dir <path>) [--json]",
+    "  fide graph statements show <fideId|rawIdentifier> [--json]",
+    "  fide graph statements promote (<draft.md> [<draft.md> ...] | --all) [--keep] [--no-normalize] [--json]",
     "",
     "Notes:",
-    "  - Normalization is ON by default for `graph statements add`.",
+    "  - Normalization is ON by default for `graph statements add`; set statements.normalize in .fide/config.json or FIDE_NORMALIZE to change it.",
     "  - Default mode writes to .fide/statements/YYYY/MM/DD/<root>.jsonl.",
-    "  - `--draft` writes a statement-doc markdown file to .fide/statement-drafts/YYYY/MM/DD/<root>.md.",
-    "  - `--stdin`/`--in` can auto-detect json/jsonl/fsd, or use --format to force.",
+    "  - `add` warns about statements already committed under .fide/statements and names the batch holding each; --skip-existing leaves them out, --fail-on-existing writes nothing.",
+    "  - `--draft` writes a statement-doc markdown file to .fide/statement-drafts/YYYY/MM/DD/<root>.md; `promote` turns drafts into batches and reports roots that changed through edits.",
+    "  - `--stdin`/`--in` can auto-detect json/jsonl/fsd/nt/ttl/jsonld/csv/tsv, or use --format to force (default: statements.format in .fide/config.json; graph wire batches are always detected unless --format is given).",
+    "  - json/jsonl/csv/tsv inputs and add flags accept CURIEs (schema:worksFor, owl:sameAs, prov:hadPrimarySource) for predicates and NetworkResource identifiers; extend the built-in prefixes in .fide/prefixes.json. Unknown prefixes are rejected and batches always store full IRIs.",
+    "  - Entity/source types are checked against the fcp types (with suggestions); literal entity types need the matching literal source type.",
+    "  - RDF inputs (nt/ttl/jsonld) take entity types from rdf:type (schema:Person, schema:Organization, skos:Concept; default Concept) and literal types from datatypes.",
+    "  - csv/tsv inputs map headers onto statement fields (subject, subjectType, ...); use --map <field=Header,...|mapping.json> for other headers and --set <field=value,...> for constant columns.",
     "  - `validate`/`root` accept statement-doc inputs and json/jsonl batches.",
+    "  - `validate` reports every problem it finds (item, line:column, field, unknown types, duplicates) and exits 1; --json returns them as errors[].",
+    "  - `validate` also checks shape rules: built-in rules for owl:sameAs, schema:validFrom, prov:hadPrimarySource and the affiliation predicates, plus --shapes or .fide/shapes/*.json, e.g. { \"rules\": [{ \"predicate\": \"schema:worksFor\", \"objectType\": \"Organization\" }] }; rules may set subjectType, objectType (type or list) and sameEntityType, and replace the built-in rules for their predicate.",
+    "  - `validate --vocab` also checks predicates and subject/object types against the vocabulary (see `fide vocab`).",
+    "  - `normalize` prints the canonical payload to stdout unless --in-place or --out is set, and reports changed raw identifiers.",
+    "  - `convert` auto-detects wire batches (.fide/statements/**/*.jsonl) and can turn them back into json/jsonl/fsd inputs.",
+    "  - `diff` keys statements by statementFideId and flags raw identifier changes that kept the same fide id (normalization drift).",
+    "  - `merge` unions wire batches, drops duplicate statementFideIds and writes the new root under .fide/statements/YYYY/MM/DD/.",
+    "  - `show` looks up a statement id, entity fide id or raw identifier through the workspace index, including statements about each match.",
   ].join("\n");
 }
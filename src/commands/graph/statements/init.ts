@@ -1,17 +1,71 @@
+import { existsSync, readFileSync } from "node:fs";
 import { mkdir } from "node:fs/promises";
-import { resolve } from "node:path";
+import { relative, resolve } from "node:path";
 import { getStringFlag, hasFlag, parseArgs } from "../../../util/args.js";
-import { printJson } from "../../../util/io.js";
+import { DEFAULT_FIDE_CONFIG, formatFideConfig, readFideConfigFile, type FideConfig } from "../../../util/config.js";
+import { printJson, writeUtf8 } from "../../../util/io.js";
+import { buildExampleWorkspace, EXAMPLE_BATCH_DATE } from "../../../util/statements/example.js";
+import { ymdUtc } from "../../../util/statements/store.js";
+import { updateWorkspaceIndexForBatch } from "../../../util/statements/workspace-index.js";
+import { getWorkspaceOverride, setWorkspaceRoot } from "../../../util/workspace.js";
+
+const INIT_TEMPLATES = ["empty", "example"] as const;
+type InitTemplate = (typeof INIT_TEMPLATES)[number];
+
+/**
+ * One directory or file `fide init` manages, with what it did (or would do) to it.
+ */
+type InitEntry = {
+  path: string;
+  kind: "directory" | "file";
+  status: "create" | "unchanged" | "overwrite" | "keep";
+  content: string | null;
+};
+
+const PROMPTS_GITIGNORE = [
+  "# Generated by `fide eval prompt`; regenerate instead of committing.",
+  "*",
+  "!.gitignore",
+  "",
+].join("\n");
 
 function initHelp(): string {
   return [
     "Usage:",
-    "  fide init [--dir <path>] [--json]",
+    "  fide init [--dir <path>] [--template <empty|example>] [--force] [--json]",
+    "",
+    "Notes:",
+    "  - Creates .fide/config.json, the statements, drafts, evals, index, shapes and vocab folders, and a .gitignore for generated prompts.",
+    "  - --template example adds sample statements and an owl:sameAs eval scenario.",
+    "  - In an existing workspace nothing is written; init reports what it would change. Use --force to apply and overwrite.",
   ].join("\n");
 }
 
+function planDirectory(path: string): InitEntry {
+  return { path, kind: "directory", status: existsSync(path) ? "unchanged" : "create", content: null };
+}
+
+function planFile(path: string, content: string, force: boolean): InitEntry {
+  if (!existsSync(path)) return { path, kind: "file", status: "create", content };
+  if (readFileSync(path, "utf8") === content) return { path, kind: "file", status: "unchanged", content };
+  return { path, kind: "file", status: force ? "overwrite" : "keep", content };
+}
+
+function describeStatus(entry: InitEntry, applied: boolean): string {
+  switch (entry.status) {
+    case "create":
+      return applied ? "created" : "would create";
+    case "overwrite":
+      return applied ? "overwrote" : "would overwrite";
+    case "keep":
+      return "kept (differs; --force overwrites)";
+    default:
+      return "unchanged";
+  }
+}
+
 /**
- * @description Initializes a minimal local .fide folder structure.
+ * @description Initializes a .fide workspace: folders, config, prompt .gitignore and an optional template.
  */
 export async function runInitCommand(args: string[]): Promise<number> {
   if (args.includes("--help")) {
@@ -21,29 +75,91 @@ export async function runInitCommand(args: string[]): Promise<number> {
 
   const { flags } = parseArgs(args);
   const targetDir = getStringFlag(flags, "dir");
-  const root = targetDir ? resolve(process.cwd(), targetDir) : process.cwd();
+  const root = targetDir ? resolve(process.cwd(), targetDir) : getWorkspaceOverride() ?? process.cwd();
+  const templateRaw = getStringFlag(flags, "template") ?? "empty";
+  if (!(INIT_TEMPLATES as readonly string[]).includes(templateRaw)) {
+    console.error(`Invalid --template: ${templateRaw}. Use one of: ${INIT_TEMPLATES.join(", ")}.`);
+    return 1;
+  }
+  const template = templateRaw as InitTemplate;
+  const force = hasFlag(flags, "force");
+  const existing = existsSync(resolve(root, ".fide"));
+  setWorkspaceRoot(root);
 
-  const directories = [
-    resolve(root, ".fide"),
-    resolve(root, ".fide/statements"),
+  // Lay folders out per the existing config unless --force replaces it with the defaults.
+  const config: FideConfig = existing && !force ? readFideConfigFile() ?? DEFAULT_FIDE_CONFIG : DEFAULT_FIDE_CONFIG;
+  const entries: InitEntry[] = [
+    planDirectory(resolve(root, ".fide")),
+    planDirectory(resolve(root, config.paths.statements)),
+    planDirectory(resolve(root, config.paths.statementDrafts)),
+    planDirectory(resolve(root, config.paths.evalPrompts)),
+    planDirectory(resolve(root, config.paths.evalDrafts)),
+    planDirectory(resolve(root, ".fide/index")),
+    planDirectory(resolve(root, ".fide/shapes")),
+    planDirectory(resolve(root, ".fide/vocab")),
+    planFile(resolve(root, ".fide/config.json"), formatFideConfig(), force),
+    planFile(resolve(root, config.paths.evalPrompts, ".gitignore"), PROMPTS_GITIGNORE, force),
   ];
 
-  for (const directory of directories) {
-    await mkdir(directory, { recursive: true });
+  let exampleBatchPath: string | null = null;
+  let exampleTarget: string | null = null;
+  if (template === "example") {
+    const example = await buildExampleWorkspace();
+    const { yyyy, mm, dd } = ymdUtc(EXAMPLE_BATCH_DATE);
+    exampleBatchPath = resolve(root, config.paths.statements, yyyy, mm, dd, `${example.root}.jsonl`);
+    exampleTarget = example.sameAsStatementFideId;
+    entries.push(
+      planDirectory(resolve(exampleBatchPath, "..")),
+      planFile(exampleBatchPath, example.wireJsonl, force),
+      planFile(resolve(root, ".fide/evals/scenarios/owl-sameAs-person.md"), example.scenarioMarkdown, force),
+    );
+  }
+
+  const applied = !existing || force;
+  if (applied) {
+    for (const entry of entries) {
+      if (entry.kind === "directory" && entry.status === "create") {
+        await mkdir(entry.path, { recursive: true });
+      } else if (entry.kind === "file" && (entry.status === "create" || entry.status === "overwrite")) {
+        await mkdir(resolve(entry.path, ".."), { recursive: true });
+        await writeUtf8(entry.path, entry.content!);
+      }
+    }
+    const batchEntry = entries.find((entry) => entry.path === exampleBatchPath);
+    if (exampleBatchPath && batchEntry && batchEntry.status !== "keep") {
+      await updateWorkspaceIndexForBatch(exampleBatchPath);
+    }
   }
 
+  const pending = entries.filter((entry) => entry.status !== "unchanged");
   if (hasFlag(flags, "json")) {
     printJson({
       ok: true,
       root,
-      created: directories,
+      existing,
+      applied,
+      template,
+      entries: entries.map((entry) => ({ path: entry.path, kind: entry.kind, status: entry.status })),
+      created: applied ? entries.filter((entry) => entry.status === "create").map((entry) => entry.path) : [],
+      exampleTarget,
     });
-  } else {
-    console.log(`Initialized .fide workspace at ${root}`);
-    for (const directory of directories) {
-      console.log(`- ${directory}`);
-    }
+    return 0;
   }
 
+  if (!applied) {
+    console.log(
+      pending.length === 0
+        ? `.fide workspace at ${root} is already up to date.`
+        : `.fide workspace already exists at ${root}; nothing written. Re-run with --force to apply:`,
+    );
+  } else {
+    console.log(`${existing ? "Updated" : "Initialized"} .fide workspace at ${root}`);
+  }
+  for (const entry of applied ? entries : pending) {
+    console.log(`- ${relative(root, entry.path) || "."}: ${describeStatus(entry, applied)}`);
+  }
+  if (exampleTarget && applied) {
+    console.log(`Example eval target: ${exampleTarget} (see .fide/evals/scenarios/owl-sameAs-person.md)`);
+  }
   return 0;
 }
@@ -0,0 +1,86 @@
+import { resolve } from "node:path";
+import { buildStatementsWithRoot } from "@chris-test/graph";
+import { getStringFlag, getStringFlagValues, hasFlag, parseArgs } from "../../../util/args.js";
+import { printJson, writeUtf8 } from "../../../util/io.js";
+import {
+  collectJsonlFiles,
+  loadStatementBatch,
+  resolveStatementBatchOutPath,
+  type StoredStatement,
+} from "../../../util/statements/store.js";
+import { mapBatchStatementsToStatementInputs } from "../../../util/statements/targets/batch-inputs.js";
+import { formatStatementsAsWireJsonl } from "../../../util/statements/targets/wire.js";
+
+function mergeHelp(): string {
+  return "Usage: fide graph statements merge (--in <batch.jsonl> [--in <batch.jsonl> ...] | --dir <path>) [--json]";
+}
+
+/**
+ * Merge wire batches into one deduplicated batch under `.fide/statements/YYYY/MM/DD/<root>.jsonl`.
+ */
+export async function runStatementsMerge(args: string[]): Promise<number> {
+  const { flags, flagValues } = parseArgs(args);
+  if (hasFlag(flags, "help")) {
+    console.log(mergeHelp());
+    return 0;
+  }
+
+  const inPaths = getStringFlagValues(flagValues, "in").map((path) => resolve(process.cwd(), path));
+  const dir = getStringFlag(flags, "dir");
+  const dirPaths = dir ? (await collectJsonlFiles(resolve(process.cwd(), dir))).sort() : [];
+  const batchPaths = [...new Set([...inPaths, ...dirPaths])];
+  if (batchPaths.length < 2) {
+    console.error("`graph statements merge` needs at least two batches. Pass --in repeatedly or --dir <path>.");
+    console.error(mergeHelp());
+    return 1;
+  }
+
+  const merged = new Map<string, StoredStatement>();
+  const sourcesById = new Map<string, Array<{ path: string; root: string }>>();
+  const batches: Array<{ path: string; root: string; statementCount: number }> = [];
+  for (const batchPath of batchPaths) {
+    const batch = await loadStatementBatch(batchPath);
+    batches.push({ path: batch.path, root: batch.root, statementCount: batch.statements.length });
+    for (const statement of batch.statements) {
+      if (!merged.has(statement.statementFideId)) merged.set(statement.statementFideId, statement);
+      const sources = sourcesById.get(statement.statementFideId) ?? [];
+      sources.push({ path: batch.path, root: batch.root });
+      sourcesById.set(statement.statementFideId, sources);
+    }
+  }
+
+  // Raw identifiers are already canonical in wire batches; re-normalizing could change fide ids.
+  const batch = await buildStatementsWithRoot(mapBatchStatementsToStatementInputs([...merged.values()]), {
+    normalizeRawIdentifier: false,
+  });
+  const outPath = resolveStatementBatchOutPath(batch.root);
+  await writeUtf8(outPath, formatStatementsAsWireJsonl(batch.statements));
+
+  const inputStatementCount = batches.reduce((sum, item) => sum + item.statementCount, 0);
+  const payload = {
+    ok: true,
+    root: batch.root,
+    statementCount: batch.statements.length,
+    duplicateCount: inputStatementCount - batch.statements.length,
+    outPath,
+    batches,
+    statements: batch.statements.map((statement) => ({
+      statementFideId: statement.statementFideId,
+      sources: sourcesById.get(statement.statementFideId) ?? [],
+    })),
+  };
+
+  if (hasFlag(flags, "json")) {
+    printJson(payload);
+    return 0;
+  }
+
+  for (const item of payload.statements) {
+    console.log(`${item.statementFideId} <- ${item.sources.map((source) => source.root).join(", ")}`);
+  }
+  console.log(
+    `merged batches=${batches.length} statements=${payload.statementCount} duplicates=${payload.duplicateCount} root=${payload.root}`,
+  );
+  console.log(outPath);
+  return 0;
+}
@@ -0,0 +1,146 @@
+import { buildStatementsWithRoot } from "@chris-test/graph";
+import type { StatementInput } from "@chris-test/fcp";
+import { getStringFlag, hasFlag, parseArgs } from "../../../util/args.js";
+import { resolveInputFormatSetting } from "../../../util/config.js";
+import { printJson, readUtf8, writeUtf8 } from "../../../util/io.js";
+import {
+  detectStatementsInputFormat,
+  getRequiredBatchInputPath,
+  isStatementsOutputFormat,
+  parseStatementsInputFormat,
+  parseStatementsOutputFormat,
+} from "../../../util/statements/shared.js";
+import { mapBatchStatementsToStatementInputs } from "../../../util/statements/targets/batch-inputs.js";
+import { formatStatementInputsByFormat } from "../../../util/statements/targets/format-inputs.js";
+import {
+  parseStatementInputsByFormat,
+  readStatementsParseOptions,
+} from "../../../util/statements/targets/parse-inputs.js";
+
+type NormalizeChange = {
+  position: "subject" | "predicate" | "object";
+  from: string;
+  to: string;
+};
+
+type NormalizeReportItem = {
+  index: number;
+  statementFideId: string;
+  changes: NormalizeChange[];
+};
+
+type NormalizeMerge = {
+  index: number;
+  mergedInto: number;
+  statementFideId: string;
+};
+
+function normalizeHelp(): string {
+  return "Usage: fide graph statements normalize --in <input> [--format <json|jsonl|fsd|nt|ttl|jsonld|csv|tsv>] [--to <json|jsonl|fsd>] [--in-place | --out <path>] [--json]";
+}
+
+/**
+ * Compare raw identifiers before and after normalization for one statement.
+ */
+function diffRawIdentifiers(before: StatementInput, after: StatementInput): NormalizeChange[] {
+  const changes: NormalizeChange[] = [];
+  for (const position of ["subject", "predicate", "object"] as const) {
+    const from = before[position].rawIdentifier;
+    const to = after[position].rawIdentifier;
+    if (from !== to) changes.push({ position, from, to });
+  }
+  return changes;
+}
+
+/**
+ * Rewrite statement inputs into their normalized canonical form.
+ */
+export async function runStatementsNormalize(args: string[]): Promise<number> {
+  const { flags } = parseArgs(args);
+  if (hasFlag(flags, "help")) {
+    console.log(normalizeHelp());
+    return 0;
+  }
+  const inPath = getRequiredBatchInputPath(flags);
+  if (!inPath) return 1;
+
+  const inPlace = hasFlag(flags, "in-place");
+  const outFlag = getStringFlag(flags, "out");
+  if (inPlace && outFlag) {
+    throw new Error("Use either --in-place or --out, not both.");
+  }
+
+  const raw = await readUtf8(inPath);
+  const inputFormat = resolveInputFormatSetting(parseStatementsInputFormat(getStringFlag(flags, "format")), raw)
+    ?? detectStatementsInputFormat(raw);
+  const outputFormat = parseStatementsOutputFormat(getStringFlag(flags, "to"))
+    ?? (isStatementsOutputFormat(inputFormat) ? inputFormat : null);
+  if (!outputFormat) {
+    throw new Error(`Input format ${inputFormat} cannot be written back. Pass --to <json|jsonl|fsd>.`);
+  }
+
+  const parseOptions = await readStatementsParseOptions(flags);
+  const statementInputs = parseStatementInputsByFormat(raw, inputFormat, parseOptions);
+
+  // Normalize each input on its own so the report pairs every input with its own result,
+  // and inputs that collapse into the same statement are merged instead of rejected.
+  const report: NormalizeReportItem[] = [];
+  const merges: NormalizeMerge[] = [];
+  const normalizedInputs: StatementInput[] = [];
+  const firstIndexById = new Map<string, number>();
+  for (const [index, input] of statementInputs.entries()) {
+    const single = await buildStatementsWithRoot([input], { normalizeRawIdentifier: true });
+    const statement = single.statements[0]!;
+    const normalized = mapBatchStatementsToStatementInputs([statement])[0]!;
+    const changes = diffRawIdentifiers(input, normalized);
+    if (changes.length > 0) report.push({ index, statementFideId: statement.statementFideId, changes });
+
+    const mergedInto = firstIndexById.get(statement.statementFideId);
+    if (mergedInto !== undefined) {
+      merges.push({ index, mergedInto, statementFideId: statement.statementFideId });
+      continue;
+    }
+    firstIndexById.set(statement.statementFideId, index);
+    normalizedInputs.push(normalized);
+  }
+  const batch = await buildStatementsWithRoot(normalizedInputs, { normalizeRawIdentifier: true });
+
+  const output = formatStatementInputsByFormat(normalizedInputs, outputFormat);
+  const outPath = inPlace ? inPath : outFlag;
+  if (outPath) {
+    await writeUtf8(outPath, output);
+  }
+
+  const payload = {
+    ok: true,
+    root: batch.root,
+    statementCount: batch.statements.length,
+    inputFormat,
+    outputFormat,
+    changedCount: report.length,
+    changes: report,
+    mergedCount: merges.length,
+    merges,
+    ...(outPath ? { outPath } : { output }),
+  };
+
+  if (hasFlag(flags, "json")) {
+    printJson(payload);
+    return 0;
+  }
+
+  // Keep stdout clean for the normalized payload when no output path is given.
+  const log = outPath ? console.log : console.error;
+  if (!outPath) process.stdout.write(output);
+  for (const item of report) {
+    log(`#${item.index} ${item.statementFideId}`);
+    for (const change of item.changes) {
+      log(`  ${change.position}: ${change.from} -> ${change.to}`);
+    }
+  }
+  for (const merge of merges) {
+    log(`#${merge.index} merged into #${merge.mergedInto} ${merge.statementFideId}`);
+  }
+  log(`normalized statements=${payload.statementCount} changed=${payload.changedCount} merged=${payload.mergedCount} root=${payload.root}${outPath ? ` outPath=${outPath}` : ""}`);
+  return 0;
+}
@@ -0,0 +1,116 @@
+import { rename, rm } from "node:fs/promises";
+import { basename, relative, resolve } from "node:path";
+import { buildStatementsWithRoot } from "@chris-test/graph";
+import type { StatementInput } from "@chris-test/fcp";
+import { hasFlag, parseArgs } from "../../../util/args.js";
+import { resolveConfiguredPath, resolveNormalizeSetting } from "../../../util/config.js";
+import { collectFilesWithExt, printJson, readUtf8, writeUtf8 } from "../../../util/io.js";
+import { resolveStatementBatchOutPath } from "../../../util/statements/store.js";
+import { parseStatementDocInputs } from "../../../util/statements/targets/input-statement-doc.js";
+import { formatStatementsAsWireJsonl } from "../../../util/statements/targets/wire.js";
+import { updateWorkspaceIndexForBatch } from "../../../util/statements/workspace-index.js";
+import { requireWorkspaceRoot } from "../../../util/workspace.js";
+
+const ROOT_FILE_PATTERN = /^0x[0-9a-f]+$/i;
+
+function promoteHelp(): string {
+  return [
+    "Usage: fide graph statements promote (<draft.md> [<draft.md> ...] | --all) [--keep] [--no-normalize] [--json]",
+    "",
+    "Notes:",
+    "  - Builds each statement-doc draft and writes it to .fide/statements/YYYY/MM/DD/<root>.jsonl.",
+    "  - Promoted drafts are removed; --keep renames them to <draft>.md.promoted instead.",
+    "  - Nothing is promoted if any draft fails to parse; fix the reported drafts and re-run.",
+  ].join("\n");
+}
+
+/**
+ * Promote statement-doc drafts from `.fide/statement-drafts` into committed wire batches.
+ */
+export async function runStatementsPromote(args: string[]): Promise<number> {
+  const { positionals, flags } = parseArgs(args);
+  if (hasFlag(flags, "help")) {
+    console.log(promoteHelp());
+    return 0;
+  }
+
+  const all = hasFlag(flags, "all");
+  if (all && positionals.length > 0) {
+    console.error("Pass draft paths or --all, not both.");
+    console.error(promoteHelp());
+    return 1;
+  } else if (!all && positionals.length === 0) {
+    console.error("Missing draft path. Pass <draft.md> or --all.");
+    console.error(promoteHelp());
+    return 1;
+  }
+
+  const root = requireWorkspaceRoot();
+  const draftPaths = all
+    ? (await collectFilesWithExt(resolveConfiguredPath("statementDrafts"), ".md")).sort()
+    : positionals.map((path) => resolve(process.cwd(), path));
+
+  // Parse every draft before writing anything so one broken draft cannot half-promote a set.
+  const parsed: Array<{ path: string; inputs: StatementInput[] }> = [];
+  const errors: Array<{ path: string; message: string }> = [];
+  for (const path of draftPaths) {
+    try {
+      const inputs = parseStatementDocInputs(await readUtf8(path));
+      if (inputs.length === 0) throw new Error("Draft has no statements.");
+      parsed.push({ path, inputs });
+    } catch (error) {
+      errors.push({ path, message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  if (errors.length > 0) {
+    if (hasFlag(flags, "json")) {
+      printJson({ ok: false, promoted: [], errors });
+    } else {
+      for (const error of errors) console.error(`${relative(root, error.path)}: ${error.message}`);
+      console.error(`Refusing to promote: ${errors.length} invalid draft${errors.length === 1 ? "" : "s"}.`);
+    }
+    return 1;
+  }
+
+  const normalize = resolveNormalizeSetting(flags);
+  const keep = hasFlag(flags, "keep");
+  const promoted = [];
+  for (const draft of parsed) {
+    const batch = await buildStatementsWithRoot(draft.inputs, { normalizeRawIdentifier: normalize });
+    const outPath = resolveStatementBatchOutPath(batch.root);
+    await writeUtf8(outPath, formatStatementsAsWireJsonl(batch.statements));
+    await updateWorkspaceIndexForBatch(outPath);
+
+    if (keep) await rename(draft.path, `${draft.path}.promoted`);
+    else await rm(draft.path);
+
+    const draftName = basename(draft.path, ".md");
+    const draftRoot = ROOT_FILE_PATTERN.test(draftName) ? draftName : null;
+    promoted.push({
+      draftPath: draft.path,
+      draft: keep ? "kept" : "removed",
+      root: batch.root,
+      draftRoot,
+      rootChanged: draftRoot !== null && draftRoot !== batch.root,
+      statementCount: batch.statements.length,
+      outPath,
+    });
+  }
+
+  if (hasFlag(flags, "json")) {
+    printJson({ ok: true, promoted, errors: [] });
+    return 0;
+  }
+  if (promoted.length === 0) {
+    console.log("No statement drafts to promote.");
+    return 0;
+  }
+  for (const item of promoted) {
+    console.log(`${relative(root, item.draftPath)} -> ${relative(root, item.outPath)} (${item.statementCount} statements)`);
+    if (item.rootChanged) {
+      console.log(`  root changed: ${item.draftRoot} -> ${item.root} (draft was edited)`);
+    }
+  }
+  return 0;
+}
@@ -1,6 +1,8 @@
 import { getStringFlag, hasFlag, parseArgs } from "../../../util/args.js";
+import { resolveInputFormatSetting, resolveNormalizeSetting } from "../../../util/config.js";
 import { readUtf8 } from "../../../util/io.js";
 import { getRequiredBatchInputPath, parseStatementsInputFormat } from "../../../util/statements/shared.js";
+import { readStatementsParseOptions } from "../../../util/statements/targets/parse-inputs.js";
 import { resolveBatchFromInput } from "../../../util/statements/targets/resolve-batch.js";
 
 /**
@@ -9,15 +11,16 @@ import { resolveBatchFromInput } from "../../../util/statements/targets/resolve-
 export async function runStatementsRoot(args: string[]): Promise<number> {
   const { flags } = parseArgs(args);
   if (hasFlag(flags, "help")) {
-    console.log("Usage: fide graph statements root --in <input> [--format <json|jsonl|fsd>]");
+    console.log("Usage: fide graph statements root --in <input> [--format <json|jsonl|fsd|nt|ttl|jsonld|csv|tsv>] [--map <field=Header,...|mapping.json>] [--set <field=value,...>]");
     return 0;
   }
   const inPath = getRequiredBatchInputPath(flags);
   if (!inPath) return 1;
-  const format = parseStatementsInputFormat(getStringFlag(flags, "format"));
 
   const raw = await readUtf8(inPath);
-  const parsed = await resolveBatchFromInput(raw, { format });
+  const format = resolveInputFormatSetting(parseStatementsInputFormat(getStringFlag(flags, "format")), raw);
+  const parseOptions = await readStatementsParseOptions(flags);
+  const parsed = await resolveBatchFromInput(raw, { format, normalizeRawIdentifier: resolveNormalizeSetting(flags), ...parseOptions });
   console.log(parsed.root);
   return 0;
 }
@@ -0,0 +1,123 @@
+import { compactPredicateRawIdentifier } from "@chris-test/fcp";
+import { hasFlag, parseArgs } from "../../../util/args.js";
+import { printJson } from "../../../util/io.js";
+import { formatStatementTextBlock } from "../../../util/statements/render.js";
+import {
+  findStatementIdsByEntity,
+  findStatementIdsByRawIdentifier,
+  openWorkspaceIndex,
+  readIndexedStatements,
+  type IndexedStatementHit,
+  type WorkspaceIndex,
+} from "../../../util/statements/workspace-index.js";
+
+/**
+ * Depth limit for statements about statements (e.g. validFrom -> hadPrimarySource).
+ */
+const MAX_ABOUT_DEPTH = 3;
+
+type ShowMatch = {
+  role: "statement" | "subject" | "object";
+  statement: IndexedStatementHit;
+  about: AboutStatement[];
+};
+
+type AboutStatement = {
+  statement: IndexedStatementHit;
+  about: AboutStatement[];
+};
+
+function showHelp(): string {
+  return "Usage: fide graph statements show <fideId|rawIdentifier> [--json]";
+}
+
+/**
+ * Collect statements whose subject is the given statement, recursively.
+ */
+async function collectAboutStatements(
+  index: WorkspaceIndex,
+  statementFideId: string,
+  depth: number,
+  seen: Set<string>,
+): Promise<AboutStatement[]> {
+  if (depth >= MAX_ABOUT_DEPTH) return [];
+  const ids = (index.subjects[statementFideId] ?? []).filter((id) => !seen.has(id));
+  ids.forEach((id) => seen.add(id));
+  const hits = await readIndexedStatements(index, ids);
+  const about: AboutStatement[] = [];
+  for (const hit of hits) {
+    about.push({ statement: hit, about: await collectAboutStatements(index, hit.statementFideId, depth + 1, seen) });
+  }
+  return about;
+}
+
+function formatAboutLines(about: AboutStatement[], indent: string): string[] {
+  return about.flatMap((item) => [
+    `${indent}- ${compactPredicateRawIdentifier(item.statement.predicateRawIdentifier)}: ${item.statement.objectRawIdentifier} (${item.statement.statementFideId})`,
+    ...formatAboutLines(item.about, `${indent}  `),
+  ]);
+}
+
+function formatMatch(match: ShowMatch): string {
+  const { statement } = match;
+  const lines = [
+    `## Statement ${statement.statementFideId}`,
+    `- match: ${match.role}`,
+    `- batch: ${statement.batchRoot ?? "unknown"}`,
+    `- file: ${statement.location.path}:${statement.location.line}`,
+    formatStatementTextBlock(statement),
+  ];
+  if (match.about.length > 0) {
+    lines.push("", "### About this statement", ...formatAboutLines(match.about, ""));
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Look up a statement or entity across every batch in `.fide/statements`.
+ */
+export async function runStatementsShow(args: string[]): Promise<number> {
+  const { positionals, flags } = parseArgs(args);
+  if (hasFlag(flags, "help")) {
+    console.log(showHelp());
+    return 0;
+  }
+  const query = positionals[0];
+  if (!query) {
+    console.error("Missing argument: fide graph statements show <fideId|rawIdentifier>");
+    return 1;
+  }
+
+  const index = await openWorkspaceIndex();
+  const matches: ShowMatch[] = [];
+  const seen = new Set<string>();
+  const pushMatches = async (role: ShowMatch["role"], ids: string[]) => {
+    const fresh = ids.filter((id) => !seen.has(id));
+    fresh.forEach((id) => seen.add(id));
+    for (const hit of await readIndexedStatements(index, fresh)) {
+      matches.push({ role, statement: hit, about: await collectAboutStatements(index, hit.statementFideId, 0, new Set()) });
+    }
+  };
+
+  if (index.statements[query]) await pushMatches("statement", [query]);
+  const entityIds = [...findStatementIdsByEntity(index, query), ...findStatementIdsByRawIdentifier(index, query)];
+  const subjectIds = entityIds.filter((id) => {
+    const entry = index.statements[id];
+    return entry?.s === query || entry?.sr === query;
+  });
+  await pushMatches("subject", subjectIds);
+  await pushMatches("object", entityIds);
+
+  if (matches.length === 0) {
+    if (hasFlag(flags, "json")) printJson({ ok: false, query, error: `No statements found for ${query}.` });
+    else console.error(`No statements found for ${query}.`);
+    return 1;
+  }
+
+  if (hasFlag(flags, "json")) {
+    printJson({ ok: true, query, matchCount: matches.length, matches });
+  } else {
+    console.log(matches.map(formatMatch).join("\n\n"));
+  }
+  return 0;
+}
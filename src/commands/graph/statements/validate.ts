@@ -1,33 +1,63 @@
 import { getStringFlag, hasFlag, parseArgs } from "../../../util/args.js";
+import { resolveInputFormatSetting, resolveNormalizeSetting } from "../../../util/config.js";
 import { printJson, readUtf8 } from "../../../util/io.js";
+import { formatStatementDiagnostic } from "../../../util/statements/diagnostics.js";
+import { checkStatementShapes, loadShapeRules } from "../../../util/statements/shapes.js";
 import { getRequiredBatchInputPath, parseStatementsInputFormat } from "../../../util/statements/shared.js";
-import { resolveBatchFromInput } from "../../../util/statements/targets/resolve-batch.js";
+import { diagnoseStatementInput } from "../../../util/statements/targets/diagnose-inputs.js";
+import { readStatementsParseOptions } from "../../../util/statements/targets/parse-inputs.js";
+import { checkStatementVocabulary, loadVocabulary } from "../../../util/statements/vocab.js";
 
 /**
- * Validate a statements batch input and print the computed root.
+ * Validate a statements batch input and print the computed root,
+ * or every problem found (compiler-style, or `errors[]` with `--json`).
  */
 export async function runStatementsValidate(args: string[]): Promise<number> {
   const { flags } = parseArgs(args);
   if (hasFlag(flags, "help")) {
-    console.log("Usage: fide graph statements validate --in <input> [--format <json|jsonl|fsd>] [--json]");
+    console.log("Usage: fide graph statements validate --in <input> [--format <json|jsonl|fsd|nt|ttl|jsonld|csv|tsv>] [--shapes <file|dir>] [--vocab] [--map <field=Header,...|mapping.json>] [--set <field=value,...>] [--json]");
     return 0;
   }
   const inPath = getRequiredBatchInputPath(flags);
   if (!inPath) return 1;
-  const format = parseStatementsInputFormat(getStringFlag(flags, "format"));
 
   const raw = await readUtf8(inPath);
-  const parsed = await resolveBatchFromInput(raw, { format });
+  const format = resolveInputFormatSetting(parseStatementsInputFormat(getStringFlag(flags, "format")), raw);
+  const parseOptions = await readStatementsParseOptions(flags);
+  const shapeRules = await loadShapeRules(getStringFlag(flags, "shapes"));
+  const report = await diagnoseStatementInput(raw, { format, normalizeRawIdentifier: resolveNormalizeSetting(flags), ...parseOptions });
+  if (report.batch && report.diagnostics.length === 0) {
+    report.diagnostics.push(...checkStatementShapes(report.batch.statements, shapeRules));
+    if (hasFlag(flags, "vocab")) {
+      report.diagnostics.push(...checkStatementVocabulary(report.batch.statements, await loadVocabulary()));
+    }
+  }
+
+  if (!report.batch || report.diagnostics.length > 0) {
+    if (hasFlag(flags, "json")) {
+      printJson({ ok: false, format: report.format, errorCount: report.diagnostics.length, errors: report.diagnostics });
+    } else {
+      for (const diagnostic of report.diagnostics) {
+        console.error(formatStatementDiagnostic(inPath, diagnostic));
+      }
+      const count = report.diagnostics.length;
+      console.error(`${count} error${count === 1 ? "" : "s"} in ${inPath}`);
+    }
+    return 1;
+  }
+
   const payload = {
     ok: true,
-    statementCount: parsed.statementCount,
-    root: parsed.root,
+    statementCount: report.batch.statementCount,
+    root: report.batch.root,
+    shapeRuleCount: shapeRules.length,
   };
 
   if (hasFlag(flags, "json")) {
     printJson(payload);
   } else {
-    console.log(`OK statements=${payload.statementCount} root=${payload.root}`);
+    const shapes = payload.shapeRuleCount > 0 ? ` shapes=${payload.shapeRuleCount}` : "";
+    console.log(`OK statements=${payload.statementCount} root=${payload.root}${shapes}`);
   }
   return 0;
 }
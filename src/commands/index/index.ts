@@ -0,0 +1,64 @@
+import { hasFlag, parseArgs } from "../../util/args.js";
+import { printJson } from "../../util/io.js";
+import {
+  loadWorkspaceIndex,
+  rebuildWorkspaceIndex,
+  resolveWorkspaceIndexPath,
+  type WorkspaceIndex,
+} from "../../util/statements/workspace-index.js";
+
+function indexHelp(): string {
+  return [
+    "Usage:",
+    "  fide index rebuild [--json]",
+    "  fide index status [--json]",
+    "",
+    "Notes:",
+    "  - The index lives at .fide/index/statements.json and maps statement ids, subject/object ids and raw identifiers, and predicate IRIs to batch lines.",
+    "  - `graph statements add`, `promote` and `init` update an existing index; lookup commands refresh it in memory against .fide/statements without rewriting the file.",
+  ].join("\n");
+}
+
+function summarize(index: WorkspaceIndex) {
+  return {
+    path: resolveWorkspaceIndexPath(),
+    batchCount: Object.keys(index.batches).length,
+    statementCount: Object.keys(index.statements).length,
+    entityCount: new Set([...Object.keys(index.subjects), ...Object.keys(index.objects)]).size,
+    predicateCount: Object.keys(index.predicates).length,
+  };
+}
+
+/**
+ * Route `fide index <command>` subcommands.
+ */
+export async function runIndexCommand(command: string | undefined, args: string[]): Promise<number> {
+  if (!command || command === "--help" || command === "-h" || command === "help") {
+    console.log(indexHelp());
+    return 0;
+  }
+
+  const { flags } = parseArgs(args);
+
+  if (command === "rebuild") {
+    const payload = { ok: true, mode: "rebuild", ...summarize(await rebuildWorkspaceIndex()) };
+    if (hasFlag(flags, "json")) printJson(payload);
+    else console.log(`indexed batches=${payload.batchCount} statements=${payload.statementCount} path=${payload.path}`);
+    return 0;
+  }
+
+  if (command === "status") {
+    const index = await loadWorkspaceIndex();
+    const payload = index
+      ? { ok: true, mode: "status", built: true, ...summarize(index) }
+      : { ok: true, mode: "status", built: false, path: resolveWorkspaceIndexPath() };
+    if (hasFlag(flags, "json")) printJson(payload);
+    else if (!index) console.log("Index not built. Run `fide index rebuild`.");
+    else console.log(`batches=${Object.keys(index.batches).length} statements=${Object.keys(index.statements).length} path=${payload.path}`);
+    return 0;
+  }
+
+  console.error(`Unknown index command: ${command}`);
+  console.error(indexHelp());
+  return 1;
+}
@@ -0,0 +1,105 @@
+import { existsSync } from "node:fs";
+import { hasFlag, parseArgs } from "../../util/args.js";
+import { getFideConfig, resolveConfigPath } from "../../util/config.js";
+import { printJson } from "../../util/io.js";
+import { loadWorkspacePrefixes } from "../../util/statements/prefixes.js";
+import { loadShapeRules } from "../../util/statements/shapes.js";
+import { loadVocabulary } from "../../util/statements/vocab.js";
+import { loadWorkspaceIndex, resolveWorkspaceIndexPath } from "../../util/statements/workspace-index.js";
+import { requireWorkspaceRoot } from "../../util/workspace.js";
+import { collectProjectStatus, printProjectStatus } from "./status.js";
+
+function projectHelp(): string {
+  return [
+    "Usage:",
+    "  fide project status [--json]",
+    "  fide project info [--json]",
+    "",
+    "Notes:",
+    "  - `status` summarizes batches and statements by date, the latest batch root, pending statement drafts, eval prompts without a draft, and eval drafts per method/target.",
+    "  - `info` shows the workspace root, effective config, index, prefixes, shape rules and vocabulary.",
+  ].join("\n");
+}
+
+async function runProjectInfo(flags: Map<string, string | boolean>): Promise<number> {
+  const root = requireWorkspaceRoot();
+  const config = getFideConfig();
+  const index = await loadWorkspaceIndex();
+  const prefixes = await loadWorkspacePrefixes();
+  const shapeRules = await loadShapeRules();
+  const vocab = await loadVocabulary();
+  const payload = {
+    ok: true,
+    root,
+    config: { path: resolveConfigPath(), exists: existsSync(resolveConfigPath()), effective: config },
+    index: {
+      path: resolveWorkspaceIndexPath(),
+      built: index !== null,
+      batchCount: index ? Object.keys(index.batches).length : 0,
+      statementCount: index ? Object.keys(index.statements).length : 0,
+    },
+    prefixCount: Object.keys(prefixes).length,
+    shapes: {
+      ruleCount: shapeRules.length,
+      localRuleCount: shapeRules.filter((rule) => rule.source !== "built-in").length,
+    },
+    vocab: {
+      termCount: vocab.length,
+      localTermCount: vocab.filter((term) => term.source !== "built-in").length,
+    },
+  };
+
+  if (hasFlag(flags, "json")) {
+    printJson(payload);
+    return 0;
+  }
+  console.log(`workspace: ${root}`);
+  console.log(`config: ${payload.config.path}${payload.config.exists ? "" : " (missing; using defaults)"}`);
+  console.log(`  statements format: ${config.statements.format ?? "auto"}, normalize: ${config.statements.normalize}`);
+  console.log(`  eval method: ${config.eval.method}, agent: ${config.eval.agent ?? "none"}`);
+  console.log(`  git: ${config.git.remote}${config.git.branch ? `/${config.git.branch}` : ""}`);
+  console.log(`  api: ${config.api.endpoint ?? "not configured"} (timeout ${config.api.timeoutMs}ms, retries ${config.api.retries})`);
+  console.log(
+    `index: ${payload.index.built ? `${payload.index.batchCount} batches, ${payload.index.statementCount} statements` : "not built"} (${payload.index.path})`,
+  );
+  console.log(`prefixes: ${payload.prefixCount}`);
+  console.log(`shape rules: ${payload.shapes.ruleCount} (${payload.shapes.localRuleCount} local)`);
+  console.log(`vocab terms: ${payload.vocab.termCount} (${payload.vocab.localTermCount} local)`);
+  return 0;
+}
+
+/**
+ * Route `fide project <command>` subcommands.
+ */
+export async function runProjectCommand(command: string | undefined, args: string[]): Promise<number> {
+  if (!command || command === "--help" || command === "-h" || command === "help") {
+    console.log(projectHelp());
+    return 0;
+  }
+
+  const { flags } = parseArgs(args);
+  if (hasFlag(flags, "help")) {
+    console.log(projectHelp());
+    return 0;
+  }
+
+  try {
+    if (command === "status") {
+      const status = await collectProjectStatus();
+      if (hasFlag(flags, "json")) printJson({ ok: true, ...status });
+      else printProjectStatus(status);
+      return 0;
+    }
+
+    if (command === "info") {
+      return await runProjectInfo(flags);
+    }
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    return 1;
+  }
+
+  console.error(`Unknown project command: ${command}`);
+  console.error(projectHelp());
+  return 1;
+}
@@ -0,0 +1,128 @@
+import { basename, dirname, relative } from "node:path";
+import { resolveConfiguredPath } from "../../util/config.js";
+import { readEvalDraftMeta, shortFideSuffix, slugify } from "../../util/eval-files.js";
+import { collectFilesWithExt, readUtf8 } from "../../util/io.js";
+import { openWorkspaceIndex } from "../../util/statements/workspace-index.js";
+import { requireWorkspaceRoot } from "../../util/workspace.js";
+
+const BATCH_DATE_PATTERN = /(\d{4})\/(\d{2})\/(\d{2})\/[^/]+\.jsonl$/;
+
+/**
+ * Workspace overview reported by `fide project status`.
+ */
+export type ProjectStatus = {
+  root: string;
+  batches: {
+    count: number;
+    statementCount: number;
+    byDate: Array<{ date: string; batchCount: number; statementCount: number }>;
+    latest: { root: string; path: string; date: string | null } | null;
+  };
+  statementDrafts: { pending: number; paths: string[] };
+  evalPrompts: { count: number; withoutDraft: number; pendingPaths: string[] };
+  evalDrafts: { count: number; byTarget: Array<{ method: string; target: string; count: number }> };
+};
+
+function batchDate(path: string): string | null {
+  const match = path.match(BATCH_DATE_PATTERN);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+}
+
+/**
+ * Key linking a prompt file (`.../<target-slug>/<consideration>--<evidence>.md`) to the drafts answering it.
+ */
+function promptKey(targetSlug: string, consideration: string | null, evidenceShort: string | null): string {
+  return `${targetSlug}|${consideration ?? ""}|${evidenceShort ?? ""}`;
+}
+
+/**
+ * Summarize batches, statement drafts, eval prompts and eval drafts in the active workspace.
+ */
+export async function collectProjectStatus(): Promise<ProjectStatus> {
+  const root = requireWorkspaceRoot();
+
+  const index = await openWorkspaceIndex();
+  const batches = Object.entries(index.batches).map(([path, batch]) => ({ path, date: batchDate(path), ...batch }));
+  const byDate = new Map<string, { date: string; batchCount: number; statementCount: number }>();
+  for (const batch of batches) {
+    const date = batch.date ?? "undated";
+    const entry = byDate.get(date) ?? { date, batchCount: 0, statementCount: 0 };
+    entry.batchCount += 1;
+    entry.statementCount += batch.statementCount;
+    byDate.set(date, entry);
+  }
+  const latest = [...batches].sort((a, b) =>
+    (a.date ?? "").localeCompare(b.date ?? "") || a.mtimeMs - b.mtimeMs,
+  ).at(-1);
+
+  const statementDraftPaths = (await collectFilesWithExt(resolveConfiguredPath("statementDrafts"), ".md")).sort();
+
+  const answered = new Set<string>();
+  const draftsByTarget = new Map<string, { method: string; target: string; count: number }>();
+  const evalDraftPaths = await collectFilesWithExt(resolveConfiguredPath("evalDrafts"), ".md");
+  for (const path of evalDraftPaths) {
+    const meta = readEvalDraftMeta(await readUtf8(path));
+    const method = meta.method ?? "unknown";
+    const target = meta.target ?? basename(dirname(path));
+    const key = `${method}|${target}`;
+    const entry = draftsByTarget.get(key) ?? { method, target, count: 0 };
+    entry.count += 1;
+    draftsByTarget.set(key, entry);
+    answered.add(promptKey(slugify(target), meta.consideration, meta.evidenceStatement ? shortFideSuffix(meta.evidenceStatement) : null));
+    // A draft without consideration/evidence metadata answers every prompt for its target.
+    if (!meta.consideration) answered.add(promptKey(slugify(target), null, null));
+  }
+
+  const promptPaths = (await collectFilesWithExt(resolveConfiguredPath("evalPrompts"), ".md")).sort();
+  const pendingPrompts = promptPaths.filter((path) => {
+    const targetSlug = basename(dirname(path));
+    const [consideration, evidenceShort] = basename(path, ".md").split("--");
+    return !answered.has(promptKey(targetSlug, consideration ?? null, evidenceShort ?? null)) &&
+      !answered.has(promptKey(targetSlug, null, null));
+  });
+
+  return {
+    root,
+    batches: {
+      count: batches.length,
+      statementCount: Object.keys(index.statements).length,
+      byDate: [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date)),
+      latest: latest ? { root: latest.root, path: latest.path, date: latest.date } : null,
+    },
+    statementDrafts: {
+      pending: statementDraftPaths.length,
+      paths: statementDraftPaths.map((path) => relative(root, path)),
+    },
+    evalPrompts: {
+      count: promptPaths.length,
+      withoutDraft: pendingPrompts.length,
+      pendingPaths: pendingPrompts.map((path) => relative(root, path)),
+    },
+    evalDrafts: {
+      count: evalDraftPaths.length,
+      byTarget: [...draftsByTarget.values()].sort((a, b) => a.method.localeCompare(b.method) || a.target.localeCompare(b.target)),
+    },
+  };
+}
+
+/**
+ * Print a project status summary for humans.
+ */
+export function printProjectStatus(status: ProjectStatus): void {
+  console.log(`workspace: ${status.root}`);
+  console.log(`batches: ${status.batches.count} (${status.batches.statementCount} statements)`);
+  for (const entry of status.batches.byDate) {
+    console.log(`  ${entry.date}: ${entry.batchCount} batch${entry.batchCount === 1 ? "" : "es"}, ${entry.statementCount} statements`);
+  }
+  if (status.batches.latest) {
+    console.log(`latest batch: ${status.batches.latest.root} (${status.batches.latest.path})`);
+  }
+  console.log(`statement drafts pending: ${status.statementDrafts.pending}`);
+  for (const path of status.statementDrafts.paths) console.log(`  ${path}`);
+  console.log(`eval prompts: ${status.evalPrompts.count} (${status.evalPrompts.withoutDraft} without a draft)`);
+  for (const path of status.evalPrompts.pendingPaths) console.log(`  ${path}`);
+  console.log(`eval drafts: ${status.evalDrafts.count}`);
+  for (const entry of status.evalDrafts.byTarget) {
+    console.log(`  ${entry.method} ${entry.target}: ${entry.count}`);
+  }
+}
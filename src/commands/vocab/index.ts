@@ -0,0 +1,191 @@
+import { existsSync } from "node:fs";
+import { mkdir } from "node:fs/promises";
+import { resolve } from "node:path";
+import { getStringFlag, getStringFlagValues, hasFlag, parseArgs } from "../../util/args.js";
+import { printJson, readUtf8, writeUtf8 } from "../../util/io.js";
+import { formatStatementDiagnostic } from "../../util/statements/diagnostics.js";
+import { loadWorkspacePrefixes } from "../../util/statements/prefixes.js";
+import { listStatementBatchPaths, loadStatementBatch } from "../../util/statements/store.js";
+import {
+  checkStatementVocabulary,
+  findVocabTerm,
+  loadVocabulary,
+  parseVocabTerms,
+  resolveVocabDir,
+  type VocabTerm,
+} from "../../util/statements/vocab.js";
+
+function vocabHelp(): string {
+  return [
+    "Usage:",
+    "  fide vocab list [--json]",
+    "  fide vocab show <iri|curie|label> [--json]",
+    "  fide vocab add --iri <iri|curie> --definition <text> [--label <label>] [--subject-type <type>] [--object-type <type>] [--file <name>] [--json]",
+    "  fide vocab check [--in <batch.jsonl>] [--json]",
+    "",
+    "Notes:",
+    "  - Built-in terms cover the owl, schema, prov and eval predicates the CLI uses.",
+    "  - Project terms live in .fide/vocab/*.json ({ \"terms\": [...] }) and override built-ins with the same IRI.",
+    "  - --subject-type/--object-type can be repeated; `add` writes to .fide/vocab/<file>.json (default: local).",
+    "  - `check` reports predicates missing from the vocabulary and subject/object types outside a term's expected types; without --in it checks every batch under .fide/statements.",
+  ].join("\n");
+}
+
+function formatTypes(types: string[] | null): string {
+  return types ? types.join(" | ") : "any";
+}
+
+function printTerm(term: VocabTerm): void {
+  console.log(`${term.label} <${term.iri}>`);
+  console.log(`  definition: ${term.definition}`);
+  console.log(`  subject: ${formatTypes(term.subjectType)}`);
+  console.log(`  object: ${formatTypes(term.objectType)}`);
+  console.log(`  source: ${term.source}`);
+}
+
+async function runVocabList(flags: Map<string, string | boolean>): Promise<number> {
+  const terms = await loadVocabulary();
+  if (hasFlag(flags, "json")) {
+    printJson({ ok: true, termCount: terms.length, terms });
+    return 0;
+  }
+  for (const term of terms) {
+    console.log(`${term.label}\t${formatTypes(term.subjectType)} -> ${formatTypes(term.objectType)}\t${term.source}`);
+  }
+  return 0;
+}
+
+async function runVocabShow(value: string | undefined, flags: Map<string, string | boolean>): Promise<number> {
+  if (!value) {
+    console.error("Missing term. Usage: fide vocab show <iri|curie|label>");
+    return 1;
+  }
+  const term = findVocabTerm(await loadVocabulary(), value, await loadWorkspacePrefixes());
+  if (!term) {
+    console.error(`Term not found in vocabulary: ${value}`);
+    return 1;
+  }
+  if (hasFlag(flags, "json")) printJson({ ok: true, term });
+  else printTerm(term);
+  return 0;
+}
+
+async function runVocabAdd(flags: Map<string, string | boolean>, flagValues: Map<string, string[]>): Promise<number> {
+  const iri = getStringFlag(flags, "iri");
+  const definition = getStringFlag(flags, "definition");
+  if (!iri || !definition) {
+    console.error("Missing required flags --iri <iri|curie> and --definition <text>.");
+    return 1;
+  }
+  const fileName = getStringFlag(flags, "file") ?? "local";
+  if (!/^[A-Za-z0-9._-]+$/.test(fileName)) {
+    console.error(`Invalid --file: ${fileName}. Use a plain file name such as "local".`);
+    return 1;
+  }
+  const fileBase = fileName.endsWith(".json") ? fileName : `${fileName}.json`;
+  const path = resolve(resolveVocabDir(), fileBase);
+  const source = `.fide/vocab/${fileBase}`;
+
+  const subjectType = getStringFlagValues(flagValues, "subject-type");
+  const objectType = getStringFlagValues(flagValues, "object-type");
+  const label = getStringFlag(flags, "label");
+  const entry: Record<string, unknown> = {
+    iri,
+    ...(label ? { label } : {}),
+    definition,
+    ...(subjectType.length > 0 ? { subjectType } : {}),
+    ...(objectType.length > 0 ? { objectType } : {}),
+  };
+
+  // Parse before writing so typos in types or prefixes are rejected with suggestions.
+  const prefixes = await loadWorkspacePrefixes();
+  const [term] = parseVocabTerms(JSON.stringify([entry]), source, prefixes);
+  const existingRaw = existsSync(path) ? await readUtf8(path) : "[]";
+  const currentTerms = parseVocabTerms(existingRaw, source, prefixes);
+  const parsed = JSON.parse(existingRaw) as Record<string, unknown>[] | { terms: Record<string, unknown>[] };
+  const rawTerms = Array.isArray(parsed) ? parsed : parsed.terms;
+  const replaced = currentTerms.some((current) => current.iri === term!.iri);
+  const nextTerms = [...rawTerms.filter((_, index) => currentTerms[index]!.iri !== term!.iri), entry];
+
+  await mkdir(resolveVocabDir(), { recursive: true });
+  await writeUtf8(path, `${JSON.stringify({ terms: nextTerms }, null, 2)}\n`);
+
+  if (hasFlag(flags, "json")) {
+    printJson({ ok: true, path, replaced, term });
+  } else {
+    console.log(`${replaced ? "Updated" : "Added"} ${term!.label} in ${path}`);
+  }
+  return 0;
+}
+
+async function runVocabCheck(flags: Map<string, string | boolean>): Promise<number> {
+  const inPath = getStringFlag(flags, "in");
+  const paths = inPath ? [resolve(process.cwd(), inPath)] : await listStatementBatchPaths();
+  const terms = await loadVocabulary();
+
+  const findings: Array<{ path: string; diagnostic: ReturnType<typeof checkStatementVocabulary>[number] }> = [];
+  let statementCount = 0;
+  for (const path of paths) {
+    const batch = await loadStatementBatch(path);
+    statementCount += batch.statements.length;
+    for (const diagnostic of checkStatementVocabulary(batch.statements, terms)) {
+      findings.push({ path, diagnostic });
+    }
+  }
+
+  if (hasFlag(flags, "json")) {
+    printJson({
+      ok: findings.length === 0,
+      batchCount: paths.length,
+      statementCount,
+      errorCount: findings.length,
+      errors: findings.map((finding) => ({ path: finding.path, ...finding.diagnostic })),
+    });
+  } else {
+    for (const finding of findings) {
+      console.error(formatStatementDiagnostic(finding.path, finding.diagnostic));
+    }
+    if (findings.length > 0) {
+      console.error(`${findings.length} vocabulary error${findings.length === 1 ? "" : "s"} in ${paths.length} batch${paths.length === 1 ? "" : "es"}`);
+    } else {
+      console.log(`OK batches=${paths.length} statements=${statementCount} terms=${terms.length}`);
+    }
+  }
+  return findings.length === 0 ? 0 : 1;
+}
+
+/**
+ * Route `fide vocab <command>` subcommands.
+ */
+export async function runVocabCommand(command: string | undefined, args: string[]): Promise<number> {
+  if (!command || command === "--help" || command === "-h" || command === "help") {
+    console.log(vocabHelp());
+    return 0;
+  }
+
+  const { positionals, flags, flagValues } = parseArgs(args);
+  if (hasFlag(flags, "help")) {
+    console.log(vocabHelp());
+    return 0;
+  }
+
+  try {
+    switch (command) {
+      case "list":
+        return await runVocabList(flags);
+      case "show":
+        return await runVocabShow(positionals[0], flags);
+      case "add":
+        return await runVocabAdd(flags, flagValues);
+      case "check":
+        return await runVocabCheck(flags);
+      default:
+        console.error(`Unknown vocab command: ${command}`);
+        console.error(vocabHelp());
+        return 1;
+    }
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    return 1;
+  }
+}
@@ -1,3 +1,7 @@
+import { existsSync } from "node:fs";
+import { resolve } from "node:path";
+import { setWorkspaceRoot } from "./util/workspace.js";
+
 function helpText(): string {
   return [
     "fide CLI",
@@ -7,19 +11,72 @@ function helpText(): string {
     "  fide init [flags]",
     "",
     "Groups:",
-    "  graph       ingest | query | statements",
-    "  eval        prompt",
+    "  graph       export | ingest | query | statements",
+    "  eval        add | prompt",
+    "  index       rebuild | status",
+    "  project     status | info",
+    "  vocab       list | show | add | check",
+    "  api         ping | mock",
     "",
     "Global:",
-    "  --json      Machine-readable output when supported",
-    "  --help      Show help",
+    "  --json              Machine-readable output when supported",
+    "  --help              Show help",
+    "  --cwd <dir>         Run as if started in <dir>",
+    "  --workspace <dir>   Use the .fide workspace in <dir> instead of searching upward from the working directory",
   ].join("\n");
 }
 
+/**
+ * Strip global `--cwd`/`--workspace` flags from argv, returning the remaining tokens.
+ */
+function extractGlobalFlags(argv: string[]): { rest: string[]; cwd: string | null; workspace: string | null; error: string | null } {
+  const rest: string[] = [];
+  const values: Record<"cwd" | "workspace", string | null> = { cwd: null, workspace: null };
+  for (let i = 0; i < argv.length; i += 1) {
+    const token = argv[i]!;
+    const match = token.match(/^--(cwd|workspace)(?:=(.*))?$/);
+    if (!match) {
+      rest.push(token);
+      continue;
+    }
+    const key = match[1] as "cwd" | "workspace";
+    const value = match[2] ?? argv[i + 1];
+    if (!value || (match[2] === undefined && value.startsWith("--"))) {
+      return { rest, ...values, error: `Missing value for --${key} <dir>.` };
+    }
+    if (match[2] === undefined) i += 1;
+    values[key] = value;
+  }
+  return { rest, ...values, error: null };
+}
+
 /**
  * Execute the Fide CLI for the given argv token list.
  */
-export async function runCli(argv: string[]): Promise<number> {
+export async function runCli(rawArgv: string[]): Promise<number> {
+  const globals = extractGlobalFlags(rawArgv);
+  const argv = globals.rest;
+  if (globals.error) {
+    console.error(globals.error);
+    return 1;
+  }
+  if (globals.cwd) {
+    const dir = resolve(process.cwd(), globals.cwd);
+    if (!existsSync(dir)) {
+      console.error(`--cwd directory does not exist: ${globals.cwd}`);
+      return 1;
+    }
+    process.chdir(dir);
+  }
+  if (globals.workspace) {
+    const dir = resolve(process.cwd(), globals.workspace);
+    if (!existsSync(dir)) {
+      console.error(`--workspace directory does not exist: ${globals.workspace}`);
+      return 1;
+    }
+    setWorkspaceRoot(dir);
+  }
+
   if (argv.length === 0 || argv[0] === "--help" || argv[0] === "-h") {
     console.log(helpText());
     return 0;
@@ -41,6 +98,22 @@ export async function runCli(argv: string[]): Promise<number> {
       const { runEvalCommand } = await import("./commands/eval/index.js");
       return runEvalCommand(command, rest);
     }
+    case "project": {
+      const { runProjectCommand } = await import("./commands/project/index.js");
+      return runProjectCommand(command, rest);
+    }
+    case "vocab": {
+      const { runVocabCommand } = await import("./commands/vocab/index.js");
+      return runVocabCommand(command, rest);
+    }
+    case "api": {
+      const { runApiCommand } = await import("./commands/api/index.js");
+      return runApiCommand(command, rest);
+    }
+    case "index": {
+      const { runIndexCommand } = await import("./commands/index/index.js");
+      return runIndexCommand(command, rest);
+    }
     default:
       console.error(`Unknown group: ${group}`);
       console.error("Run `fide --help` to see available commands.");
@@ -0,0 +1,188 @@
+import { getStringFlag } from "../args.js";
+import { getFideConfig } from "../config.js";
+import { printJson } from "../io.js";
+
+/**
+ * Environment variable holding the API bearer token. Tokens are never read from `.fide/config.json`.
+ */
+export const API_TOKEN_ENV = "FIDE_API_TOKEN";
+
+const RETRY_BASE_DELAY_MS = 250;
+const RETRY_MAX_DELAY_MS = 5000;
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+/**
+ * Resolved endpoint, token and retry policy for one command.
+ */
+export type ApiSettings = {
+  endpoint: string;
+  token: string | null;
+  timeoutMs: number;
+  retries: number;
+};
+
+/**
+ * Error payload reported by API-backed commands (also printed under `error` in `--json` output).
+ * - `config`: no endpoint configured or endpoint is not a URL.
+ * - `network`: connection failed after all retries.
+ * - `timeout`: the last attempt exceeded the request timeout.
+ * - `http`: the API answered with a non-2xx status; `code`/`message` come from its `{ error }` body when present.
+ * - `invalid-response`: a 2xx body that is not JSON.
+ */
+export type ApiError = {
+  kind: "config" | "network" | "timeout" | "http" | "invalid-response";
+  message: string;
+  status: number | null;
+  code: string | null;
+  url: string | null;
+  attempts: number;
+};
+
+/**
+ * Outcome of one API call; failures are returned, not thrown.
+ */
+export type ApiResult<T> = { ok: true; data: T; attempts: number } | { ok: false; error: ApiError };
+
+/**
+ * Request options for `apiRequest`.
+ */
+export type ApiRequestOptions = {
+  method?: "GET" | "POST";
+  query?: Record<string, string | number | null>;
+  json?: unknown;
+  body?: string;
+  contentType?: string;
+};
+
+function apiError(kind: ApiError["kind"], message: string, extra: Partial<ApiError> = {}): ApiError {
+  return { kind, message, status: null, code: null, url: null, attempts: 0, ...extra };
+}
+
+/**
+ * Resolve API settings: `--endpoint` > `FIDE_API_ENDPOINT` > `api.endpoint` in config; token from `FIDE_API_TOKEN`.
+ */
+export function resolveApiSettings(flags: Map<string, string | boolean>): ApiResult<ApiSettings> {
+  const config = getFideConfig().api;
+  const endpoint = getStringFlag(flags, "endpoint") ?? config.endpoint;
+  if (!endpoint) {
+    return {
+      ok: false,
+      error: apiError("config", "No API endpoint configured. Set api.endpoint in .fide/config.json, FIDE_API_ENDPOINT, or pass --endpoint <url>."),
+    };
+  }
+  try {
+    new URL(endpoint);
+  } catch {
+    return { ok: false, error: apiError("config", `Invalid API endpoint: ${endpoint}`) };
+  }
+  const token = process.env[API_TOKEN_ENV]?.trim();
+  return {
+    ok: true,
+    attempts: 0,
+    data: { endpoint, token: token ? token : null, timeoutMs: config.timeoutMs, retries: config.retries },
+  };
+}
+
+function buildUrl(endpoint: string, path: string, query: ApiRequestOptions["query"]): string {
+  const url = new URL(path.replace(/^\//, ""), endpoint.endsWith("/") ? endpoint : `${endpoint}/`);
+  for (const [key, value] of Object.entries(query ?? {})) {
+    if (value !== null) url.searchParams.set(key, String(value));
+  }
+  return url.toString();
+}
+
+/**
+ * Exponential backoff with jitter; a `Retry-After` header (seconds) wins when present.
+ */
+function retryDelayMs(attempt: number, retryAfter: string | null): number {
+  const seconds = retryAfter === null ? Number.NaN : Number(retryAfter);
+  if (Number.isFinite(seconds) && seconds >= 0) return Math.min(seconds * 1000, RETRY_MAX_DELAY_MS);
+  const base = Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1), RETRY_MAX_DELAY_MS);
+  return base / 2 + Math.random() * (base / 2);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolveSleep) => setTimeout(resolveSleep, ms));
+}
+
+function readErrorBody(text: string): { code: string | null; message: string | null } {
+  try {
+    const parsed = JSON.parse(text) as { error?: { code?: unknown; message?: unknown } | string };
+    if (typeof parsed.error === "string") return { code: null, message: parsed.error };
+    return {
+      code: typeof parsed.error?.code === "string" ? parsed.error.code : null,
+      message: typeof parsed.error?.message === "string" ? parsed.error.message : null,
+    };
+  } catch {
+    return { code: null, message: text.trim() ? text.trim().slice(0, 200) : null };
+  }
+}
+
+/**
+ * Call an API route with the configured timeout, retrying network errors, timeouts, 408/429 and 500/502/503/504 with backoff.
+ */
+export async function apiRequest<T>(settings: ApiSettings, path: string, options: ApiRequestOptions = {}): Promise<ApiResult<T>> {
+  const url = buildUrl(settings.endpoint, path, options.query);
+  const headers: Record<string, string> = { accept: "application/json" };
+  if (settings.token) headers.authorization = `Bearer ${settings.token}`;
+  let body = options.body;
+  if (options.json !== undefined) {
+    body = JSON.stringify(options.json);
+    headers["content-type"] = "application/json";
+  } else if (body !== undefined) {
+    headers["content-type"] = options.contentType ?? "text/plain";
+  }
+
+  const maxAttempts = settings.retries + 1;
+  let lastError = apiError("network", `Request failed: ${url}`, { url });
+  for (let attempt = 1; attempt <= maxAttempts; attempt += 1) {
+    let retryAfter: string | null = null;
+    try {
+      const response = await fetch(url, {
+        method: options.method ?? (body === undefined ? "GET" : "POST"),
+        headers,
+        body,
+        signal: AbortSignal.timeout(settings.timeoutMs),
+      });
+      const text = await response.text();
+      if (response.ok) {
+        try {
+          return { ok: true, data: (text ? JSON.parse(text) : null) as T, attempts: attempt };
+        } catch {
+          return { ok: false, error: apiError("invalid-response", `API returned non-JSON body for ${url}.`, { status: response.status, url, attempts: attempt }) };
+        }
+      }
+      const detail = readErrorBody(text);
+      lastError = apiError("http", detail.message ?? `API responded ${response.status} ${response.statusText}`.trim(), {
+        status: response.status,
+        code: detail.code,
+        url,
+        attempts: attempt,
+      });
+      if (!RETRYABLE_STATUSES.has(response.status)) return { ok: false, error: lastError };
+      retryAfter = response.headers.get("retry-after");
+    } catch (error) {
+      const timedOut = error instanceof Error && (error.name === "TimeoutError" || error.name === "AbortError");
+      const cause = error instanceof Error && error.cause instanceof Error ? error.cause : error;
+      lastError = timedOut
+        ? apiError("timeout", `Request timed out after ${settings.timeoutMs}ms: ${url}`, { url, attempts: attempt })
+        : apiError("network", `Request failed: ${url} (${cause instanceof Error ? cause.message : String(cause)})`, { url, attempts: attempt });
+    }
+    if (attempt < maxAttempts) await sleep(retryDelayMs(attempt, retryAfter));
+  }
+  return { ok: false, error: lastError };
+}
+
+/**
+ * Print an API failure: under `error` in `--json` output, otherwise as one stderr line.
+ */
+export function reportApiError(command: string, error: ApiError, json: boolean): number {
+  if (json) {
+    printJson({ ok: false, command, remote: true, error });
+  } else {
+    const status = error.status === null ? "" : ` [${error.status}${error.code ? ` ${error.code}` : ""}]`;
+    const attempts = error.attempts > 1 ? ` after ${error.attempts} attempts` : "";
+    console.error(`${command}: ${error.kind} error${status}${attempts}: ${error.message}`);
+  }
+  return 1;
+}
@@ -0,0 +1,91 @@
+import type { GraphReplayEntry } from "../graph/local-store.js";
+import type { TriplePattern } from "../graph/match.js";
+import type { SqlQueryResult } from "../graph/sql.js";
+import type { StoredStatement } from "../statements/store.js";
+import { apiRequest, type ApiResult, type ApiSettings } from "./client.js";
+
+/**
+ * Graph API routes, relative to the configured endpoint. The mock server implements the same contract.
+ */
+export const GRAPH_API_ROUTES = {
+  health: "v1/health",
+  batches: "v1/graph/batches",
+  replay: "v1/graph/replay",
+  statements: "v1/graph/statements",
+  sql: "v1/graph/sql",
+} as const;
+
+/**
+ * `GET v1/health` response.
+ */
+export type ApiHealth = {
+  ok: boolean;
+  service: string;
+  rootCount: number;
+};
+
+/**
+ * `POST v1/graph/batches` response.
+ */
+export type RemoteApplyResult = {
+  root: string;
+  statementCount: number;
+  addedCount: number;
+  alreadyApplied: boolean;
+};
+
+/**
+ * `POST v1/graph/replay` response.
+ */
+export type RemoteReplayResult = {
+  batches: GraphReplayEntry[];
+};
+
+/**
+ * `GET v1/graph/statements` response.
+ */
+export type RemoteMatchResult = {
+  count: number;
+  statements: StoredStatement[];
+};
+
+/**
+ * Check that the API is reachable.
+ */
+export function fetchApiHealth(settings: ApiSettings): Promise<ApiResult<ApiHealth>> {
+  return apiRequest<ApiHealth>(settings, GRAPH_API_ROUTES.health);
+}
+
+/**
+ * Submit a validated wire batch (JSONL) for ingest.
+ */
+export function postGraphBatch(settings: ApiSettings, wireJsonl: string): Promise<ApiResult<RemoteApplyResult>> {
+  return apiRequest<RemoteApplyResult>(settings, GRAPH_API_ROUTES.batches, {
+    method: "POST",
+    body: wireJsonl,
+    contentType: "application/x-ndjson",
+  });
+}
+
+/**
+ * Ask the API to replay its ingest ledger, optionally from one batch root onward.
+ */
+export function postGraphReplay(settings: ApiSettings, fromRoot: string | null): Promise<ApiResult<RemoteReplayResult>> {
+  return apiRequest<RemoteReplayResult>(settings, GRAPH_API_ROUTES.replay, { method: "POST", json: { from: fromRoot } });
+}
+
+/**
+ * Match a triple pattern against the API's graph.
+ */
+export function fetchGraphMatch(settings: ApiSettings, pattern: TriplePattern, limit: number | null): Promise<ApiResult<RemoteMatchResult>> {
+  return apiRequest<RemoteMatchResult>(settings, GRAPH_API_ROUTES.statements, {
+    query: { s: pattern.s, p: pattern.p, o: pattern.o, limit },
+  });
+}
+
+/**
+ * Run a SQL query against the API's `statements` table.
+ */
+export function postGraphSql(settings: ApiSettings, sql: string, allowWrite: boolean): Promise<ApiResult<SqlQueryResult>> {
+  return apiRequest<SqlQueryResult>(settings, GRAPH_API_ROUTES.sql, { method: "POST", json: { sql, allowWrite } });
+}
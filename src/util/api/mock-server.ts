@@ -0,0 +1,181 @@
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { GraphReplayEntry, GraphStoreState } from "../graph/local-store.js";
+import type { StoredStatement } from "../statements/store.js";
+import type { ApiHealth, RemoteApplyResult, RemoteMatchResult, RemoteReplayResult } from "./graph-api.js";
+import { GRAPH_API_ROUTES } from "./graph-api.js";
+
+/**
+ * Options for the local mock API.
+ * `failFirst` answers the first N requests with 503 so client retries can be exercised.
+ */
+export type MockApiOptions = {
+  host: string;
+  port: number;
+  token: string | null;
+  failFirst: number;
+};
+
+/**
+ * Running mock API handle.
+ */
+export type MockApiServer = {
+  url: string;
+  close: () => Promise<void>;
+};
+
+type MockResponse = { status: number; body: unknown };
+
+function ok(body: unknown): MockResponse {
+  return { status: 200, body };
+}
+
+function failure(status: number, code: string, message: string): MockResponse {
+  return { status, body: { error: { code, message } } };
+}
+
+function sendJson(response: ServerResponse, result: MockResponse, headers: Record<string, string> = {}): void {
+  response.writeHead(result.status, { "content-type": "application/json", ...headers });
+  response.end(`${JSON.stringify(result.body)}\n`);
+}
+
+async function readBody(request: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+/**
+ * Graph modules the ingest and match routes need, loaded on first use so health, auth and
+ * injected failures answer without them.
+ */
+async function loadGraphModules() {
+  const [graph, store, match] = await Promise.all([
+    import("@chris-test/graph"),
+    import("../graph/local-store.js"),
+    import("../graph/match.js"),
+  ]);
+  return { ...graph, ...store, ...match };
+}
+
+/**
+ * Start an in-memory implementation of the graph API routes for local testing.
+ * State lives only as long as the process; nothing is written to `.fide`.
+ */
+export async function startMockApiServer(options: MockApiOptions): Promise<MockApiServer> {
+  const ledger: Array<{ root: string; wire: string; statementCount: number }> = [];
+  let state: GraphStoreState | null = null;
+  let failuresLeft = options.failFirst;
+
+  const toStatements = (current: GraphStoreState): StoredStatement[] =>
+    Object.entries(current.statements).map(([statementFideId, entry]) => ({
+      statementFideId,
+      subjectFideId: entry.s,
+      subjectRawIdentifier: entry.sr,
+      predicateFideId: entry.p,
+      predicateRawIdentifier: entry.pr,
+      objectFideId: entry.o,
+      objectRawIdentifier: entry.or,
+    }));
+
+  const applyBatch = async (wire: string): Promise<MockResponse> => {
+    const { addBatchToGraphState, emptyGraphState, parseGraphStatementBatchJsonl } = await loadGraphModules();
+    let batch: Awaited<ReturnType<typeof parseGraphStatementBatchJsonl>>;
+    try {
+      batch = await parseGraphStatementBatchJsonl(wire);
+    } catch (error) {
+      return failure(422, "invalid-batch", error instanceof Error ? error.message : String(error));
+    }
+    const statementCount = batch.statements.length;
+    if (ledger.some((entry) => entry.root === batch.root)) {
+      return ok({ root: batch.root, statementCount, addedCount: 0, alreadyApplied: true } satisfies RemoteApplyResult);
+    }
+    state ??= emptyGraphState();
+    const addedCount = addBatchToGraphState(state, batch);
+    ledger.push({ root: batch.root, wire, statementCount });
+    return ok({ root: batch.root, statementCount, addedCount, alreadyApplied: false } satisfies RemoteApplyResult);
+  };
+
+  const replay = async (fromRoot: string | null): Promise<MockResponse> => {
+    const start = fromRoot ? ledger.findIndex((entry) => entry.root === fromRoot) : 0;
+    if (start < 0) return failure(404, "unknown-root", `Root not found in ledger: ${fromRoot}`);
+    const { addBatchToGraphState, copyRootFromGraphState, emptyGraphState, parseGraphStatementBatchJsonl } = await loadGraphModules();
+    const previous = state ?? emptyGraphState();
+    state = emptyGraphState();
+    const batches: GraphReplayEntry[] = [];
+    for (const [position, entry] of ledger.entries()) {
+      if (position < start) {
+        copyRootFromGraphState(previous, state, entry.root);
+        batches.push({ root: entry.root, status: "kept", path: null, statementCount: entry.statementCount, message: null });
+        continue;
+      }
+      try {
+        addBatchToGraphState(state, await parseGraphStatementBatchJsonl(entry.wire));
+        batches.push({ root: entry.root, status: "replayed", path: null, statementCount: entry.statementCount, message: null });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        batches.push({ root: entry.root, status: "invalid", path: null, statementCount: 0, message });
+      }
+    }
+    return ok({ batches } satisfies RemoteReplayResult);
+  };
+
+  const route = async (request: IncomingMessage, url: URL): Promise<MockResponse> => {
+    const path = url.pathname.replace(/^\/+/, "");
+    if (request.method === "GET" && path === GRAPH_API_ROUTES.health) {
+      return ok({ ok: true, service: "fide-mock", rootCount: ledger.length } satisfies ApiHealth);
+    }
+    if (request.method === "POST" && path === GRAPH_API_ROUTES.batches) {
+      return applyBatch(await readBody(request));
+    }
+    if (request.method === "POST" && path === GRAPH_API_ROUTES.replay) {
+      const body = JSON.parse((await readBody(request)) || "{}") as { from?: string | null };
+      return replay(body.from ?? null);
+    }
+    if (request.method === "GET" && path === GRAPH_API_ROUTES.statements) {
+      const { matchesTriplePattern, readPatternTerm } = await loadGraphModules();
+      const pattern = {
+        s: readPatternTerm(url.searchParams.get("s")),
+        p: readPatternTerm(url.searchParams.get("p")),
+        o: readPatternTerm(url.searchParams.get("o")),
+      };
+      const limit = Number(url.searchParams.get("limit") ?? Number.NaN);
+      const matches = state ? toStatements(state).filter((statement) => matchesTriplePattern(statement, pattern)) : [];
+      return ok({
+        count: matches.length,
+        statements: Number.isInteger(limit) && limit > 0 ? matches.slice(0, limit) : matches,
+      } satisfies RemoteMatchResult);
+    }
+    if (path === GRAPH_API_ROUTES.sql) {
+      return failure(501, "not-implemented", "The mock API does not run SQL; use `fide graph query sql` locally.");
+    }
+    return failure(404, "not-found", `No route for ${request.method} /${path}`);
+  };
+
+  const server = createServer((request, response) => {
+    const url = new URL(request.url ?? "/", "http://mock.local");
+    if (failuresLeft > 0) {
+      failuresLeft -= 1;
+      sendJson(response, failure(503, "unavailable", "Injected mock failure."), { "retry-after": "0" });
+      return;
+    }
+    if (options.token && request.headers.authorization !== `Bearer ${options.token}`) {
+      sendJson(response, failure(401, "unauthorized", "Missing or invalid bearer token."));
+      return;
+    }
+    route(request, url).then(
+      (result) => sendJson(response, result),
+      (error: unknown) => sendJson(response, failure(400, "bad-request", error instanceof Error ? error.message : String(error))),
+    );
+  });
+
+  await new Promise<void>((resolveListen, rejectListen) => {
+    server.once("error", rejectListen);
+    server.listen(options.port, options.host, () => resolveListen());
+  });
+  const address = server.address() as AddressInfo;
+  return {
+    url: `http://${options.host}:${address.port}/`,
+    close: () => new Promise<void>((resolveClose) => server.close(() => resolveClose())),
+  };
+}
@@ -1,15 +1,22 @@
 export type ParsedArgs = {
   positionals: string[];
   flags: Map<string, string | boolean>;
+  flagValues: Map<string, string[]>;
 };
 
 /**
  * Parse CLI tokens into positional args and `--flag` values.
  * Supports `--key value`, `--key=value`, and boolean flags.
+ * `flags` keeps the last value of a repeated flag; `flagValues` keeps every string value in order.
  */
 export function parseArgs(args: string[]): ParsedArgs {
   const positionals: string[] = [];
   const flags = new Map<string, string | boolean>();
+  const flagValues = new Map<string, string[]>();
+  const setValue = (key: string, value: string) => {
+    flags.set(key, value);
+    flagValues.set(key, [...(flagValues.get(key) ?? []), value]);
+  };
 
   for (let i = 0; i < args.length; i += 1) {
     const token = args[i];
@@ -24,7 +31,7 @@ export function parseArgs(args: string[]): ParsedArgs {
     if (eqIndex >= 0) {
       const key = keyValue.slice(0, eqIndex);
       const value = keyValue.slice(eqIndex + 1);
-      flags.set(key, value);
+      setValue(key, value);
       continue;
     }
 
@@ -35,11 +42,11 @@ export function parseArgs(args: string[]): ParsedArgs {
       continue;
     }
 
-    flags.set(key, next);
+    setValue(key, next);
     i += 1;
   }
 
-  return { positionals, flags };
+  return { positionals, flags, flagValues };
 }
 
 /**
@@ -54,6 +61,13 @@ export function getStringFlag(
   return null;
 }
 
+/**
+ * Read every string value given for a repeatable flag.
+ */
+export function getStringFlagValues(flagValues: Map<string, string[]>, key: string): string[] {
+  return flagValues.get(key) ?? [];
+}
+
 /**
  * Check whether a flag key was provided.
  */
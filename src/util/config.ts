@@ -0,0 +1,270 @@
+import { existsSync, readFileSync } from "node:fs";
+import { hasFlag } from "./args.js";
+import { isGraphStatementWireJsonl, STATEMENTS_INPUT_FORMATS, type StatementsInputFormat } from "./statements/shared.js";
+import { resolveWorkspacePath, resolveWorkspaceRoot } from "./workspace.js";
+
+/**
+ * Workspace settings read from `.fide/config.json`.
+ * Precedence everywhere is flags > env > config > built-in defaults.
+ */
+export type FideConfig = {
+  version: number;
+  statements: {
+    format: StatementsInputFormat | null;
+    normalize: boolean;
+  };
+  eval: {
+    method: string;
+    agent: string | null;
+  };
+  prefixes: Record<string, string>;
+  paths: {
+    statements: string;
+    statementDrafts: string;
+    evalPrompts: string;
+    evalDrafts: string;
+  };
+  git: {
+    remote: string;
+    branch: string | null;
+  };
+  api: {
+    endpoint: string | null;
+    timeoutMs: number;
+    retries: number;
+  };
+};
+
+export const CONFIG_VERSION = 1;
+
+/**
+ * Built-in defaults, also written by `fide init`.
+ */
+export const DEFAULT_FIDE_CONFIG: FideConfig = {
+  version: CONFIG_VERSION,
+  statements: {
+    format: null,
+    normalize: true,
+  },
+  eval: {
+    method: "temporal-validity/owl-sameAs/Person@v1",
+    agent: null,
+  },
+  prefixes: {},
+  paths: {
+    statements: ".fide/statements",
+    statementDrafts: ".fide/statement-drafts",
+    evalPrompts: ".fide/evals/prompts",
+    evalDrafts: ".fide/evals/drafts",
+  },
+  git: {
+    remote: "origin",
+    branch: null,
+  },
+  api: {
+    endpoint: null,
+    timeoutMs: 10000,
+    retries: 2,
+  },
+};
+
+/**
+ * Environment variables that override config values.
+ */
+export const CONFIG_ENV_VARS = {
+  format: "FIDE_STATEMENTS_FORMAT",
+  normalize: "FIDE_NORMALIZE",
+  method: "FIDE_EVAL_METHOD",
+  agent: "FIDE_EVAL_AGENT",
+  remote: "FIDE_GIT_REMOTE",
+  apiEndpoint: "FIDE_API_ENDPOINT",
+} as const;
+
+let cached: { root: string; config: FideConfig } | null = null;
+
+/**
+ * Resolve the workspace config file path (`.fide/config.json`).
+ */
+export function resolveConfigPath(): string {
+  return resolveWorkspacePath(".fide", "config.json");
+}
+
+/**
+ * Format a config object the way `fide init` writes it.
+ */
+export function formatFideConfig(config: FideConfig = DEFAULT_FIDE_CONFIG): string {
+  return `${JSON.stringify(config, null, 2)}\n`;
+}
+
+function fail(message: string): never {
+  throw new Error(`Invalid .fide/config.json: ${message}`);
+}
+
+function readSection(value: unknown, name: string): Record<string, unknown> {
+  if (value === undefined) return {};
+  if (!value || typeof value !== "object" || Array.isArray(value)) fail(`"${name}" must be an object.`);
+  return value as Record<string, unknown>;
+}
+
+function readString(value: unknown, name: string, fallback: string): string {
+  if (value === undefined) return fallback;
+  if (typeof value !== "string" || !value) fail(`"${name}" must be a non-empty string.`);
+  return value;
+}
+
+function readOptionalString(value: unknown, name: string, fallback: string | null): string | null {
+  if (value === undefined) return fallback;
+  if (value === null) return null;
+  return readString(value, name, "");
+}
+
+function readCount(value: unknown, name: string, fallback: number, min: number): number {
+  if (value === undefined) return fallback;
+  if (typeof value !== "number" || !Number.isInteger(value) || value < min) fail(`"${name}" must be an integer >= ${min}.`);
+  return value;
+}
+
+function readFormat(value: unknown, name: string, fallback: StatementsInputFormat | null): StatementsInputFormat | null {
+  const format = readOptionalString(value, name, fallback);
+  if (format !== null && !(STATEMENTS_INPUT_FORMATS as readonly string[]).includes(format)) {
+    fail(`"${name}" must be one of: ${STATEMENTS_INPUT_FORMATS.join(", ")}.`);
+  }
+  return format as StatementsInputFormat | null;
+}
+
+/**
+ * Merge a parsed config file over the built-in defaults, checking value types.
+ */
+export function parseFideConfig(parsed: unknown): FideConfig {
+  const root = readSection(parsed, "config");
+  const statements = readSection(root.statements, "statements");
+  const evalSection = readSection(root.eval, "eval");
+  const paths = readSection(root.paths, "paths");
+  const git = readSection(root.git, "git");
+  const api = readSection(root.api, "api");
+  const prefixes = readSection(root.prefixes, "prefixes");
+  const defaults = DEFAULT_FIDE_CONFIG;
+
+  if (statements.normalize !== undefined && typeof statements.normalize !== "boolean") {
+    fail(`"statements.normalize" must be true or false.`);
+  }
+  for (const [prefix, namespace] of Object.entries(prefixes)) {
+    if (typeof namespace !== "string" || !namespace) fail(`"prefixes.${prefix}" must be a namespace IRI string.`);
+  }
+
+  return {
+    version: typeof root.version === "number" ? root.version : CONFIG_VERSION,
+    statements: {
+      format: readFormat(statements.format, "statements.format", defaults.statements.format),
+      normalize: (statements.normalize as boolean | undefined) ?? defaults.statements.normalize,
+    },
+    eval: {
+      method: readString(evalSection.method, "eval.method", defaults.eval.method),
+      agent: readOptionalString(evalSection.agent, "eval.agent", defaults.eval.agent),
+    },
+    prefixes: prefixes as Record<string, string>,
+    paths: {
+      statements: readString(paths.statements, "paths.statements", defaults.paths.statements),
+      statementDrafts: readString(paths.statementDrafts, "paths.statementDrafts", defaults.paths.statementDrafts),
+      evalPrompts: readString(paths.evalPrompts, "paths.evalPrompts", defaults.paths.evalPrompts),
+      evalDrafts: readString(paths.evalDrafts, "paths.evalDrafts", defaults.paths.evalDrafts),
+    },
+    git: {
+      remote: readString(git.remote, "git.remote", defaults.git.remote),
+      branch: readOptionalString(git.branch, "git.branch", defaults.git.branch),
+    },
+    api: {
+      endpoint: readOptionalString(api.endpoint, "api.endpoint", defaults.api.endpoint),
+      timeoutMs: readCount(api.timeoutMs, "api.timeoutMs", defaults.api.timeoutMs, 1),
+      retries: readCount(api.retries, "api.retries", defaults.api.retries, 0),
+    },
+  };
+}
+
+function readEnv(name: string): string | undefined {
+  const value = process.env[name]?.trim();
+  return value ? value : undefined;
+}
+
+/**
+ * Apply `FIDE_*` environment overrides on top of file config.
+ */
+function applyEnvOverrides(config: FideConfig): FideConfig {
+  const format = readEnv(CONFIG_ENV_VARS.format);
+  if (format && !(STATEMENTS_INPUT_FORMATS as readonly string[]).includes(format)) {
+    throw new Error(`Invalid ${CONFIG_ENV_VARS.format}: ${format}. Expected one of: ${STATEMENTS_INPUT_FORMATS.join(", ")}.`);
+  }
+  const normalize = readEnv(CONFIG_ENV_VARS.normalize);
+  return {
+    ...config,
+    statements: {
+      format: (format as StatementsInputFormat | undefined) ?? config.statements.format,
+      normalize: normalize === undefined ? config.statements.normalize : !["0", "false", "no", "off"].includes(normalize.toLowerCase()),
+    },
+    eval: {
+      method: readEnv(CONFIG_ENV_VARS.method) ?? config.eval.method,
+      agent: readEnv(CONFIG_ENV_VARS.agent) ?? config.eval.agent,
+    },
+    git: {
+      ...config.git,
+      remote: readEnv(CONFIG_ENV_VARS.remote) ?? config.git.remote,
+    },
+    api: {
+      ...config.api,
+      endpoint: readEnv(CONFIG_ENV_VARS.apiEndpoint) ?? config.api.endpoint,
+    },
+  };
+}
+
+/**
+ * Read the file config without env overrides, or null when `.fide/config.json` does not exist.
+ */
+export function readFideConfigFile(): FideConfig | null {
+  const path = resolveConfigPath();
+  if (!existsSync(path)) return null;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(path, "utf8")) as unknown;
+  } catch (error) {
+    fail(error instanceof Error ? error.message : String(error));
+  }
+  return parseFideConfig(parsed);
+}
+
+/**
+ * Effective workspace config (env > `.fide/config.json` > built-in), cached per workspace root.
+ * Read synchronously so path resolvers can use it.
+ */
+export function getFideConfig(): FideConfig {
+  const root = resolveWorkspaceRoot();
+  if (cached?.root === root) return cached.config;
+  const config = applyEnvOverrides(readFideConfigFile() ?? DEFAULT_FIDE_CONFIG);
+  cached = { root, config };
+  return config;
+}
+
+/**
+ * Resolve a configured output directory against the workspace root.
+ */
+export function resolveConfiguredPath(key: keyof FideConfig["paths"]): string {
+  return resolveWorkspacePath(getFideConfig().paths[key]);
+}
+
+/**
+ * Input format for one payload: `--format` wins, then graph wire batches are detected as `jsonl`,
+ * then the configured default applies (null means auto-detect).
+ */
+export function resolveInputFormatSetting(flagFormat: StatementsInputFormat | null, raw: string): StatementsInputFormat | null {
+  if (flagFormat) return flagFormat;
+  if (isGraphStatementWireJsonl(raw)) return "jsonl";
+  return getFideConfig().statements.format;
+}
+
+/**
+ * Normalization setting from `--normalize`/`--no-normalize`, falling back to config.
+ */
+export function resolveNormalizeSetting(flags: Map<string, string | boolean>): boolean {
+  if (hasFlag(flags, "no-normalize")) return false;
+  if (hasFlag(flags, "normalize")) return true;
+  return getFideConfig().statements.normalize;
+}
@@ -0,0 +1,51 @@
+/**
+ * `YYYY/MM/DD` folder (UTC) used for eval prompt and draft output.
+ */
+export function utcDatePath(now = new Date()): string {
+  const y = String(now.getUTCFullYear());
+  const m = String(now.getUTCMonth() + 1).padStart(2, "0");
+  const d = String(now.getUTCDate()).padStart(2, "0");
+  return `${y}/${m}/${d}`;
+}
+
+/**
+ * Make an identifier safe to use as one path segment.
+ */
+export function slugify(input: string): string {
+  return input.replace(/[^a-zA-Z0-9._-]/g, "-");
+}
+
+/**
+ * Last 12 hex characters of a fide id, used to name prompt files per evidence statement.
+ */
+export function shortFideSuffix(fideId: string): string {
+  const m = fideId.match(/0x([a-f0-9]{40})$/i);
+  if (!m) return slugify(fideId).slice(-12);
+  return m[1]!.slice(-12);
+}
+
+/**
+ * Read the `meta:` block `fide eval add` writes into draft frontmatter (`"none"` values become null).
+ */
+export function readEvalDraftMeta(content: string): Record<string, string | null> {
+  const meta: Record<string, string | null> = {};
+  const lines = content.replace(/\r\n?/g, "\n").split("\n");
+  if (lines[0]?.trim() !== "---") return meta;
+  let inMeta = false;
+  for (const line of lines.slice(1)) {
+    if (line.trim() === "---") break;
+    if (line.startsWith("meta:")) {
+      inMeta = true;
+      continue;
+    }
+    if (!inMeta) continue;
+    const match = line.match(/^\s+([A-Za-z]+):\s*(".*")\s*$/);
+    if (!match) {
+      if (!line.startsWith(" ")) inMeta = false;
+      continue;
+    }
+    const value = JSON.parse(match[2]!) as string;
+    meta[match[1]!] = value === "none" ? null : value;
+  }
+  return meta;
+}
@@ -0,0 +1,320 @@
+import { existsSync } from "node:fs";
+import { rename } from "node:fs/promises";
+import { relative, resolve } from "node:path";
+import { formatGraphStatementBatchJsonl, parseGraphStatementBatchJsonl } from "@chris-test/graph";
+import { appendUtf8, readUtf8, writeUtf8 } from "../io.js";
+import { resolveWorkspacePath, resolveWorkspaceRoot } from "../workspace.js";
+
+const GRAPH_STORE_VERSION = 1;
+
+/**
+ * One applied batch, in apply order. The ledger is the source of truth the store is rebuilt from.
+ */
+export type GraphLedgerEntry = {
+  root: string;
+  appliedAt: string;
+  statementCount: number;
+  sourcePath: string;
+  batchPath: string;
+};
+
+/**
+ * Ingested statement with the batch roots that carried it.
+ */
+export type GraphStoreStatement = {
+  s: string;
+  sr: string;
+  p: string;
+  pr: string;
+  o: string;
+  or: string;
+  roots: string[];
+};
+
+/**
+ * Local graph state stored at `.fide/graph/store.json`.
+ * `subjects`/`objects` are keyed by fide id and `predicates` by predicate IRI.
+ */
+export type GraphStoreState = {
+  version: number;
+  roots: string[];
+  statements: Record<string, GraphStoreStatement>;
+  subjects: Record<string, string[]>;
+  predicates: Record<string, string[]>;
+  objects: Record<string, string[]>;
+};
+
+/**
+ * Result of applying one batch to the local store.
+ */
+export type GraphApplyResult = {
+  root: string;
+  statementCount: number;
+  addedCount: number;
+  alreadyApplied: boolean;
+  batchPath: string;
+};
+
+/**
+ * Resolve the local graph store directory (`.fide/graph`).
+ */
+export function resolveGraphStoreDir(): string {
+  return resolveWorkspacePath(".fide", "graph");
+}
+
+function resolveGraphStatePath(): string {
+  return resolve(resolveGraphStoreDir(), "store.json");
+}
+
+/**
+ * Resolve the ingest ledger path (`.fide/graph/ledger.jsonl`).
+ */
+export function resolveGraphLedgerPath(): string {
+  return resolve(resolveGraphStoreDir(), "ledger.jsonl");
+}
+
+/**
+ * Resolve where the store keeps its copy of an applied batch (`.fide/graph/batches/<root>.jsonl`).
+ */
+export function resolveGraphBatchPath(root: string): string {
+  return resolve(resolveGraphStoreDir(), "batches", `${root}.jsonl`);
+}
+
+/**
+ * Create an empty graph state.
+ */
+export function emptyGraphState(): GraphStoreState {
+  return { version: GRAPH_STORE_VERSION, roots: [], statements: {}, subjects: {}, predicates: {}, objects: {} };
+}
+
+/**
+ * Load the graph state, or an empty state when nothing has been ingested yet.
+ */
+export async function loadGraphState(): Promise<GraphStoreState> {
+  const path = resolveGraphStatePath();
+  if (!existsSync(path)) return emptyGraphState();
+  const parsed = JSON.parse(await readUtf8(path)) as GraphStoreState;
+  if (parsed.version !== GRAPH_STORE_VERSION) {
+    throw new Error(`Unsupported .fide/graph/store.json version ${parsed.version}. Run \`fide graph ingest replay\` to rebuild it.`);
+  }
+  return parsed;
+}
+
+/**
+ * Persist the graph state through a temp file and rename, so an interrupted write never leaves a partial store.json.
+ */
+export async function saveGraphState(state: GraphStoreState): Promise<void> {
+  const path = resolveGraphStatePath();
+  await writeUtf8(`${path}.tmp`, `${JSON.stringify(state)}\n`);
+  await rename(`${path}.tmp`, path);
+}
+
+/**
+ * Read every ledger entry in apply order.
+ */
+export async function readGraphLedger(): Promise<GraphLedgerEntry[]> {
+  const path = resolveGraphLedgerPath();
+  if (!existsSync(path)) return [];
+  return (await readUtf8(path))
+    .split("\n")
+    .filter((line) => line.trim().length > 0)
+    .map((line, index) => {
+      try {
+        return JSON.parse(line) as GraphLedgerEntry;
+      } catch {
+        throw new Error(`Invalid .fide/graph/ledger.jsonl line ${index + 1}.`);
+      }
+    });
+}
+
+/**
+ * Index a statement id under a key. Only called for statements new to the state, so the id is never
+ * already listed and no membership scan is needed.
+ */
+function addToList(map: Record<string, string[]>, key: string, value: string): void {
+  const list = map[key];
+  if (list) list.push(value);
+  else map[key] = [value];
+}
+
+/**
+ * Add a parsed batch's statements and index entries to the state. Returns how many statements were new.
+ */
+export function addBatchToGraphState(
+  state: GraphStoreState,
+  batch: Awaited<ReturnType<typeof parseGraphStatementBatchJsonl>>,
+): number {
+  let added = 0;
+  batch.statements.forEach((statement, index) => {
+    const statementFideId = batch.statementFideIds[index]!;
+    const existing = state.statements[statementFideId];
+    if (existing) {
+      if (!existing.roots.includes(batch.root)) existing.roots.push(batch.root);
+      return;
+    }
+    state.statements[statementFideId] = {
+      s: statement.subjectFideId,
+      sr: statement.subjectRawIdentifier,
+      p: statement.predicateFideId,
+      pr: statement.predicateRawIdentifier,
+      o: statement.objectFideId,
+      or: statement.objectRawIdentifier,
+      roots: [batch.root],
+    };
+    addToList(state.subjects, statement.subjectFideId, statementFideId);
+    addToList(state.predicates, statement.predicateRawIdentifier, statementFideId);
+    addToList(state.objects, statement.objectFideId, statementFideId);
+    added += 1;
+  });
+  if (!state.roots.includes(batch.root)) state.roots.push(batch.root);
+  return added;
+}
+
+/**
+ * Copy the statements one root contributed from an existing state into another, without re-reading the batch.
+ */
+export function copyRootFromGraphState(from: GraphStoreState, to: GraphStoreState, root: string): void {
+  for (const [statementFideId, statement] of Object.entries(from.statements)) {
+    if (!statement.roots.includes(root)) continue;
+    const existing = to.statements[statementFideId];
+    if (existing) {
+      if (!existing.roots.includes(root)) existing.roots.push(root);
+      continue;
+    }
+    to.statements[statementFideId] = { ...statement, roots: [root] };
+    addToList(to.subjects, statement.s, statementFideId);
+    addToList(to.predicates, statement.pr, statementFideId);
+    addToList(to.objects, statement.o, statementFideId);
+  }
+  if (!to.roots.includes(root)) to.roots.push(root);
+}
+
+/**
+ * Apply a wire batch to the local store: keep a canonical copy, append to the ledger, then update statements and indexes.
+ * The ledger is written first so an interrupted apply never leaves store.json ahead of it; a root that is in the
+ * ledger but missing from store.json is added to the store on the next apply. Otherwise re-applying a root changes nothing.
+ */
+export async function applyGraphBatch(raw: string, sourcePath: string): Promise<GraphApplyResult> {
+  const batch = await parseGraphStatementBatchJsonl(raw);
+  const batchPath = resolveGraphBatchPath(batch.root);
+  const inLedger = (await readGraphLedger()).some((entry) => entry.root === batch.root);
+  const state = await loadGraphState();
+  if (inLedger && state.roots.includes(batch.root)) {
+    return { root: batch.root, statementCount: batch.statements.length, addedCount: 0, alreadyApplied: true, batchPath };
+  }
+
+  if (!inLedger) {
+    await writeUtf8(batchPath, formatGraphStatementBatchJsonl(batch.statementWires));
+    const workspaceRoot = resolveWorkspaceRoot();
+    const entry: GraphLedgerEntry = {
+      root: batch.root,
+      appliedAt: new Date().toISOString(),
+      statementCount: batch.statements.length,
+      sourcePath: relative(workspaceRoot, resolve(process.cwd(), sourcePath)),
+      batchPath: relative(workspaceRoot, batchPath),
+    };
+    await appendUtf8(resolveGraphLedgerPath(), `${JSON.stringify(entry)}\n`);
+  }
+
+  const addedCount = addBatchToGraphState(state, batch);
+  await saveGraphState(state);
+  return { root: batch.root, statementCount: batch.statements.length, addedCount, alreadyApplied: false, batchPath };
+}
+
+/**
+ * Outcome of replaying one ledger entry.
+ */
+export type GraphReplayEntry = {
+  root: string;
+  status: "replayed" | "kept" | "missing" | "invalid" | "root-mismatch";
+  path: string | null;
+  statementCount: number;
+  message: string | null;
+};
+
+async function readLedgerBatch(entry: GraphLedgerEntry): Promise<{ path: string; raw: string } | null> {
+  for (const candidate of [entry.batchPath, entry.sourcePath]) {
+    const path = resolveWorkspacePath(candidate);
+    if (existsSync(path)) return { path, raw: await readUtf8(path) };
+  }
+  return null;
+}
+
+/**
+ * Rebuild the graph state from the ledger in apply order, re-verifying each batch root.
+ * Entries before `fromRoot` are carried over from the current store as-is (`kept`) without
+ * re-reading their batches; from `fromRoot` onward, batches that are missing or no longer
+ * hash to their recorded root are reported and left out of the rebuilt state.
+ */
+export async function replayGraphLedger(fromRoot: string | null): Promise<GraphReplayEntry[]> {
+  const ledger = await readGraphLedger();
+  const start = fromRoot ? ledger.findIndex((entry) => entry.root === fromRoot) : 0;
+  if (start < 0) throw new Error(`Root not found in .fide/graph/ledger.jsonl: ${fromRoot}`);
+
+  const previous = start > 0 ? await loadGraphState() : emptyGraphState();
+  const notInStore = ledger.slice(0, start).find((entry) => !previous.roots.includes(entry.root));
+  if (notInStore) {
+    throw new Error(`Root ${notInStore.root} is in the ledger but not in .fide/graph/store.json; replay without --from to rebuild it.`);
+  }
+
+  const state = emptyGraphState();
+  const results: GraphReplayEntry[] = [];
+  for (const [position, entry] of ledger.entries()) {
+    if (position < start) {
+      copyRootFromGraphState(previous, state, entry.root);
+      results.push({
+        root: entry.root,
+        status: "kept",
+        path: resolveWorkspacePath(entry.batchPath),
+        statementCount: entry.statementCount,
+        message: null,
+      });
+      continue;
+    }
+    const source = await readLedgerBatch(entry);
+    if (!source) {
+      results.push({
+        root: entry.root,
+        status: "missing",
+        path: null,
+        statementCount: 0,
+        message: `Batch file not found: ${entry.batchPath} (source ${entry.sourcePath}).`,
+      });
+      continue;
+    }
+    let batch: Awaited<ReturnType<typeof parseGraphStatementBatchJsonl>>;
+    try {
+      batch = await parseGraphStatementBatchJsonl(source.raw);
+    } catch (error) {
+      results.push({
+        root: entry.root,
+        status: "invalid",
+        path: source.path,
+        statementCount: 0,
+        message: error instanceof Error ? error.message : String(error),
+      });
+      continue;
+    }
+    if (batch.root !== entry.root) {
+      results.push({
+        root: entry.root,
+        status: "root-mismatch",
+        path: source.path,
+        statementCount: batch.statements.length,
+        message: `Contents hash to ${batch.root}, not the recorded root.`,
+      });
+      continue;
+    }
+    addBatchToGraphState(state, batch);
+    results.push({
+      root: entry.root,
+      status: "replayed",
+      path: source.path,
+      statementCount: batch.statements.length,
+      message: null,
+    });
+  }
+
+  await saveGraphState(state);
+  return results;
+}
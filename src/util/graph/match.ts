@@ -0,0 +1,142 @@
+import { existsSync } from "node:fs";
+import type { StoredStatement } from "../statements/store.js";
+import { openWorkspaceIndex, readIndexedStatements } from "../statements/workspace-index.js";
+import { loadGraphState, resolveGraphLedgerPath } from "./local-store.js";
+
+const WILDCARDS = new Set(["", "?", "*", "_"]);
+
+/**
+ * Triple pattern; null positions match anything. Subject/object match a fide id or raw identifier,
+ * the predicate matches a predicate fide id or IRI.
+ */
+export type TriplePattern = {
+  s: string | null;
+  p: string | null;
+  o: string | null;
+};
+
+/**
+ * Where `graph query match` reads statements from.
+ */
+export type MatchSource = "store" | "batches";
+
+/**
+ * Treat a missing value or `?`, `*`, `_` as a wildcard.
+ */
+export function readPatternTerm(value: string | null): string | null {
+  return value === null || WILDCARDS.has(value.trim()) ? null : value.trim();
+}
+
+function isFideId(value: string): boolean {
+  return value.startsWith("did:fide:");
+}
+
+/**
+ * Check one statement against a triple pattern.
+ */
+export function matchesTriplePattern(statement: StoredStatement, pattern: TriplePattern): boolean {
+  if (pattern.s && statement.subjectFideId !== pattern.s && statement.subjectRawIdentifier !== pattern.s) return false;
+  if (pattern.p && statement.predicateFideId !== pattern.p && statement.predicateRawIdentifier !== pattern.p) return false;
+  if (pattern.o && statement.objectFideId !== pattern.o && statement.objectRawIdentifier !== pattern.o) return false;
+  return true;
+}
+
+/**
+ * Pick the smallest index bucket that applies, or every id when no position is indexed.
+ */
+function pickCandidates(all: () => string[], buckets: Array<string[] | null>): string[] {
+  const applicable = buckets.filter((bucket): bucket is string[] => bucket !== null);
+  if (applicable.length === 0) return all();
+  return applicable.reduce((smallest, bucket) => (bucket.length < smallest.length ? bucket : smallest));
+}
+
+/**
+ * Default source: the local graph store once anything has been ingested, otherwise the workspace batches.
+ */
+export function resolveDefaultMatchSource(): MatchSource {
+  return existsSync(resolveGraphLedgerPath()) ? "store" : "batches";
+}
+
+/**
+ * Footer naming the source a query read, with a hint for the other source when it was picked by default.
+ */
+export function formatMatchSourceNote(source: MatchSource | "remote", defaulted: boolean): string {
+  if (!defaulted) return `source: ${source}`;
+  return source === "store"
+    ? "source: store (.fide/graph, the default once something is ingested; --source batches reads .fide/statements)"
+    : "source: batches (.fide/statements, the default until something is ingested; --source store reads .fide/graph)";
+}
+
+async function matchStore(pattern: TriplePattern, limit: number | null): Promise<StoredStatement[]> {
+  const state = await loadGraphState();
+  const ids = pickCandidates(() => Object.keys(state.statements), [
+    pattern.s && isFideId(pattern.s) ? state.subjects[pattern.s] ?? [] : null,
+    pattern.p && !isFideId(pattern.p) ? state.predicates[pattern.p] ?? [] : null,
+    pattern.o && isFideId(pattern.o) ? state.objects[pattern.o] ?? [] : null,
+  ]);
+  const matches: StoredStatement[] = [];
+  for (const statementFideId of ids) {
+    const entry = state.statements[statementFideId];
+    if (!entry) continue;
+    const statement: StoredStatement = {
+      statementFideId,
+      subjectFideId: entry.s,
+      subjectRawIdentifier: entry.sr,
+      predicateFideId: entry.p,
+      predicateRawIdentifier: entry.pr,
+      objectFideId: entry.o,
+      objectRawIdentifier: entry.or,
+    };
+    if (!matchesTriplePattern(statement, pattern)) continue;
+    matches.push(statement);
+    if (matches.length === limit) break;
+  }
+  return matches;
+}
+
+async function matchBatches(pattern: TriplePattern, limit: number | null): Promise<StoredStatement[]> {
+  const index = await openWorkspaceIndex();
+  const entityBucket = (value: string | null, byFideId: Record<string, string[]>) => {
+    if (!value) return null;
+    return isFideId(value) ? byFideId[value] ?? [] : index.rawIdentifiers[value] ?? [];
+  };
+  const ids = pickCandidates(() => Object.keys(index.statements), [
+    entityBucket(pattern.s, index.subjects),
+    pattern.p && !isFideId(pattern.p) ? index.predicates[pattern.p] ?? [] : null,
+    entityBucket(pattern.o, index.objects),
+  ]);
+  // Read candidates one batch file at a time so a limited query stops reading once it has enough matches.
+  const idsByPath = new Map<string, string[]>();
+  for (const statementFideId of ids) {
+    const path = index.statements[statementFideId]?.locations[0]?.path;
+    if (!path) continue;
+    const pathIds = idsByPath.get(path);
+    if (pathIds) pathIds.push(statementFideId);
+    else idsByPath.set(path, [statementFideId]);
+  }
+  const matches: StoredStatement[] = [];
+  for (const pathIds of idsByPath.values()) {
+    for (const hit of await readIndexedStatements(index, pathIds)) {
+      if (!matchesTriplePattern(hit, pattern)) continue;
+      matches.push({
+        statementFideId: hit.statementFideId,
+        subjectFideId: hit.subjectFideId,
+        subjectRawIdentifier: hit.subjectRawIdentifier,
+        predicateFideId: hit.predicateFideId,
+        predicateRawIdentifier: hit.predicateRawIdentifier,
+        objectFideId: hit.objectFideId,
+        objectRawIdentifier: hit.objectRawIdentifier,
+      });
+      if (matches.length === limit) return matches;
+    }
+  }
+  return matches;
+}
+
+/**
+ * Find statements matching a triple pattern in the local graph store or the workspace batches,
+ * stopping after `limit` matches when one is given.
+ */
+export async function matchTriplePattern(pattern: TriplePattern, source: MatchSource, limit: number | null = null): Promise<StoredStatement[]> {
+  return source === "store" ? matchStore(pattern, limit) : matchBatches(pattern, limit);
+}
@@ -0,0 +1,160 @@
+import type { DatabaseSync } from "node:sqlite";
+import { parseFideIdTypes } from "../statements/render.js";
+import { listStatementBatchPaths, loadStatementBatch } from "../statements/store.js";
+import { loadGraphState } from "./local-store.js";
+import type { MatchSource } from "./match.js";
+
+/**
+ * Schema of the `statements` table `graph query sql` runs against. One row per statement;
+ * `batch_root` is the first batch that carried it.
+ */
+export const STATEMENTS_TABLE_SQL = `CREATE TABLE statements (
+  statement_id TEXT PRIMARY KEY,
+  subject_id TEXT NOT NULL,
+  subject_raw TEXT NOT NULL,
+  subject_entity_type TEXT NOT NULL,
+  subject_source_type TEXT NOT NULL,
+  predicate_id TEXT NOT NULL,
+  predicate_raw TEXT NOT NULL,
+  object_id TEXT NOT NULL,
+  object_raw TEXT NOT NULL,
+  object_entity_type TEXT NOT NULL,
+  object_source_type TEXT NOT NULL,
+  batch_root TEXT
+)`;
+
+const STATEMENT_COLUMNS = [
+  "statement_id",
+  "subject_id",
+  "subject_raw",
+  "subject_entity_type",
+  "subject_source_type",
+  "predicate_id",
+  "predicate_raw",
+  "object_id",
+  "object_raw",
+  "object_entity_type",
+  "object_source_type",
+  "batch_root",
+] as const;
+
+type SqlStatementRow = Record<(typeof STATEMENT_COLUMNS)[number], string | null>;
+
+/**
+ * Rows and column names returned by one SQL query.
+ */
+export type SqlQueryResult = {
+  columns: string[];
+  rows: Array<Record<string, string | number | null>>;
+};
+
+function toRow(
+  statement: {
+    statementFideId: string;
+    subjectFideId: string;
+    subjectRawIdentifier: string;
+    predicateFideId: string;
+    predicateRawIdentifier: string;
+    objectFideId: string;
+    objectRawIdentifier: string;
+  },
+  batchRoot: string | null,
+): SqlStatementRow {
+  const subject = parseFideIdTypes(statement.subjectFideId);
+  const object = parseFideIdTypes(statement.objectFideId);
+  return {
+    statement_id: statement.statementFideId,
+    subject_id: statement.subjectFideId,
+    subject_raw: statement.subjectRawIdentifier,
+    subject_entity_type: subject.entityType,
+    subject_source_type: subject.sourceType,
+    predicate_id: statement.predicateFideId,
+    predicate_raw: statement.predicateRawIdentifier,
+    object_id: statement.objectFideId,
+    object_raw: statement.objectRawIdentifier,
+    object_entity_type: object.entityType,
+    object_source_type: object.sourceType,
+    batch_root: batchRoot,
+  };
+}
+
+async function loadStatementRows(source: MatchSource): Promise<SqlStatementRow[]> {
+  if (source === "store") {
+    const state = await loadGraphState();
+    return Object.entries(state.statements).map(([statementFideId, entry]) =>
+      toRow(
+        {
+          statementFideId,
+          subjectFideId: entry.s,
+          subjectRawIdentifier: entry.sr,
+          predicateFideId: entry.p,
+          predicateRawIdentifier: entry.pr,
+          objectFideId: entry.o,
+          objectRawIdentifier: entry.or,
+        },
+        entry.roots[0] ?? null,
+      ),
+    );
+  }
+  const rows: SqlStatementRow[] = [];
+  for (const path of await listStatementBatchPaths()) {
+    const batch = await loadStatementBatch(path);
+    for (const statement of batch.statements) rows.push(toRow(statement, batch.root));
+  }
+  return rows;
+}
+
+/**
+ * Load local statements into an in-memory SQLite database (`node:sqlite`).
+ * Unless `allowWrite` is set the connection is switched to `query_only` after loading.
+ */
+export async function openStatementsDatabase(source: MatchSource, allowWrite: boolean): Promise<DatabaseSync> {
+  let sqlite: typeof import("node:sqlite");
+  try {
+    sqlite = await import("node:sqlite");
+  } catch {
+    throw new Error(`\`graph query sql\` needs the built-in node:sqlite module (Node.js 22.13 or newer); this is Node.js ${process.versions.node}.`);
+  }
+
+  const db = new sqlite.DatabaseSync(":memory:");
+  db.exec(STATEMENTS_TABLE_SQL);
+  const insert = db.prepare(
+    `INSERT OR IGNORE INTO statements (${STATEMENT_COLUMNS.join(", ")}) VALUES (${STATEMENT_COLUMNS.map(() => "?").join(", ")})`,
+  );
+  db.exec("BEGIN");
+  for (const row of await loadStatementRows(source)) {
+    insert.run(...STATEMENT_COLUMNS.map((column) => row[column]));
+  }
+  db.exec("COMMIT");
+  if (!allowWrite) db.exec("PRAGMA query_only = ON");
+  return db;
+}
+
+function toJsonValue(value: unknown): string | number | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "bigint") return Number.isSafeInteger(Number(value)) ? Number(value) : value.toString();
+  if (typeof value === "number" || typeof value === "string") return value;
+  if (value instanceof Uint8Array) return Buffer.from(value).toString("hex");
+  return String(value);
+}
+
+/**
+ * Run one SQL statement and return its rows. Writes on a read-only connection are reported with a hint.
+ */
+export function runStatementsSql(db: DatabaseSync, sql: string): SqlQueryResult {
+  let rows: Array<Record<string, unknown>>;
+  try {
+    rows = db.prepare(sql).all();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (/readonly|query_only/i.test(message)) {
+      throw new Error(`Query tried to modify data (${message}). Re-run with --allow-write; changes only affect the in-memory copy.`);
+    }
+    throw new Error(`SQL error: ${message}`);
+  }
+  const columns = rows.length > 0 ? Object.keys(rows[0]!) : [];
+  return {
+    columns,
+    rows: rows.map((row) => Object.fromEntries(Object.entries(row).map(([key, value]) => [key, toJsonValue(value)]))),
+  };
+}
@@ -1,4 +1,5 @@
-import { appendFile, mkdir, readFile, writeFile } from "node:fs/promises";
+import type { Dirent } from "node:fs";
+import { appendFile, mkdir, readdir, readFile, writeFile } from "node:fs/promises";
 import { dirname, resolve } from "node:path";
 
 /**
@@ -26,6 +27,29 @@ export async function appendUtf8(path: string, content: string): Promise<void> {
   await appendFile(absPath, content, "utf8");
 }
 
+/**
+ * Recursively collect files ending in `ext` under a directory; a missing directory yields none.
+ */
+export async function collectFilesWithExt(dir: string, ext: string): Promise<string[]> {
+  let entries: Dirent[];
+  try {
+    entries = await readdir(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  const files: string[] = [];
+  for (const entry of entries) {
+    const full = resolve(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await collectFilesWithExt(full, ext)));
+    } else if (entry.isFile() && full.endsWith(ext)) {
+      files.push(full);
+    }
+  }
+  return files;
+}
+
 /**
  * Print pretty JSON to stdout.
  */
@@ -0,0 +1,85 @@
+/**
+ * One problem found while reading statement input.
+ * `item` is the 1-based statement position; `line`/`column` are 1-based source positions when known.
+ * Shape violations carry the offending `statementFideId` and the `rule` id instead.
+ */
+export type StatementDiagnostic = {
+  code: string;
+  message: string;
+  item?: number;
+  line?: number;
+  column?: number;
+  field?: string;
+  statementFideId?: string;
+  rule?: string;
+};
+
+/**
+ * Convert a character offset into a 1-based line/column pair.
+ */
+export function toSourcePosition(raw: string, offset: number): { line: number; column: number } {
+  const before = raw.slice(0, Math.max(0, Math.min(offset, raw.length)));
+  const lineStart = before.lastIndexOf("\n") + 1;
+  return { line: before.split("\n").length, column: before.length - lineStart + 1 };
+}
+
+/**
+ * Turn a `JSON.parse` failure into a diagnostic positioned inside `raw`.
+ * Handles both the `at position N` and `(line L column C)` message styles.
+ */
+export function diagnosticFromJsonError(error: unknown, raw: string, base?: { line: number }): StatementDiagnostic {
+  const message = error instanceof Error ? error.message : String(error);
+  const lineColumn = message.match(/\(line (\d+) column (\d+)\)/);
+  const offset = message.match(/at position (\d+)/);
+  const position = lineColumn
+    ? { line: Number(lineColumn[1]), column: Number(lineColumn[2]) }
+    : offset
+      ? toSourcePosition(raw, Number(offset[1]))
+      : toSourcePosition(raw, /end of JSON input/.test(message) ? raw.length : 0);
+  const detail = message.replace(/\s*\(line \d+ column \d+\)/, "").replace(/ in JSON at position \d+.*$/, "");
+  return {
+    code: "invalid-json",
+    message: `Invalid JSON: ${detail}.`,
+    line: position.line + (base ? base.line - 1 : 0),
+    column: position.column,
+  };
+}
+
+/**
+ * Wrap a thrown parser error as a diagnostic, keeping any `line N, column M` / `Row N` position it mentions.
+ */
+export function diagnosticFromError(error: unknown, code = "parse-error"): StatementDiagnostic {
+  const message = error instanceof Error ? error.message : String(error);
+  const lineColumn = message.match(/line (\d+), column (\d+)/i);
+  if (lineColumn) return { code, message, line: Number(lineColumn[1]), column: Number(lineColumn[2]) };
+  const row = message.match(/^Row (\d+)/);
+  if (row) return { code, message, line: Number(row[1]) };
+  return { code, message };
+}
+
+/**
+ * Render a diagnostic as a compiler-style `path:line:column: error: ...` line.
+ */
+export function formatStatementDiagnostic(path: string, diagnostic: StatementDiagnostic): string {
+  const location = diagnostic.line !== undefined
+    ? `${path}:${diagnostic.line}:${diagnostic.column ?? 1}`
+    : path;
+  const item = diagnostic.item !== undefined ? `item ${diagnostic.item}: ` : "";
+  return `${location}: error: ${item}${diagnostic.message} [${diagnostic.code}]`;
+}
+
+/**
+ * Build one error message summarizing a list of diagnostics, for callers that throw.
+ */
+export function summarizeStatementDiagnostics(diagnostics: StatementDiagnostic[], limit = 5): string {
+  const lines = diagnostics.slice(0, limit).map((diagnostic) => {
+    const where = diagnostic.line !== undefined
+      ? `line ${diagnostic.line}${diagnostic.column !== undefined ? `, column ${diagnostic.column}` : ""}: `
+      : diagnostic.item !== undefined
+        ? `item ${diagnostic.item}: `
+        : "";
+    return `${where}${diagnostic.message}`;
+  });
+  const more = diagnostics.length > limit ? [`(${diagnostics.length - limit} more; run \`fide graph statements validate\` for the full list)`] : [];
+  return [`Invalid statement input (${diagnostics.length} problem${diagnostics.length === 1 ? "" : "s"}):`, ...lines, ...more].join("\n  ");
+}
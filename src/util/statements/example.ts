@@ -0,0 +1,129 @@
+import { buildStatementRawIdentifier, type StatementInput } from "@chris-test/fcp";
+import { buildStatementsWithRoot } from "@chris-test/graph";
+import { formatStatementsAsWireJsonl } from "./targets/wire.js";
+import { VOCAB_IRIS } from "./vocab.js";
+
+const OWL_SAME_AS_IRI = VOCAB_IRIS.owlSameAs;
+const SCHEMA_NAME_IRI = VOCAB_IRIS.schemaName;
+const SCHEMA_MEMBER_OF_IRI = VOCAB_IRIS.schemaMemberOf;
+const SCHEMA_VALID_FROM_IRI = VOCAB_IRIS.schemaValidFrom;
+const PROV_HAD_PRIMARY_SOURCE_IRI = VOCAB_IRIS.provHadPrimarySource;
+
+const EXAMPLE_PERSON = "https://example.org/people/ada-lovelace";
+const EXAMPLE_PERSON_ALIAS = "https://www.wikidata.org/wiki/Q7259";
+const EXAMPLE_ORGANIZATION = "https://example.org/orgs/analytical-engine-society";
+const EXAMPLE_SOURCE = "https://example.org/sources/ada-lovelace-profile";
+
+/**
+ * Date folder the example batch is written under, so re-running `fide init --template example` is idempotent.
+ */
+export const EXAMPLE_BATCH_DATE = new Date("2025-01-01T00:00:00.000Z");
+
+/**
+ * Sample statements and the owl:sameAs statement an eval scenario targets.
+ */
+export type ExampleWorkspace = {
+  root: string;
+  wireJsonl: string;
+  statementCount: number;
+  sameAsStatementFideId: string;
+  scenarioMarkdown: string;
+};
+
+type Reference = StatementInput["subject"];
+
+function networkRef(rawIdentifier: string, entityType: Reference["entityType"]): Reference {
+  return { rawIdentifier, entityType, sourceType: "NetworkResource" };
+}
+
+function statementRef(statement: { subjectFideId: string; predicateFideId: string; objectFideId: string }): Reference {
+  return {
+    rawIdentifier: buildStatementRawIdentifier(
+      statement.subjectFideId as `did:fide:0x${string}`,
+      statement.predicateFideId as `did:fide:0x${string}`,
+      statement.objectFideId as `did:fide:0x${string}`,
+    ),
+    entityType: "Statement",
+    sourceType: "Statement",
+  };
+}
+
+function predicate(rawIdentifier: string): StatementInput["predicate"] {
+  return { rawIdentifier, entityType: "Concept", sourceType: "NetworkResource" };
+}
+
+function text(value: string): StatementInput["object"] {
+  return { rawIdentifier: value, entityType: "TextLiteral", sourceType: "TextLiteral" };
+}
+
+async function buildOne(input: StatementInput) {
+  const batch = await buildStatementsWithRoot([input], { normalizeRawIdentifier: true });
+  return batch.statements[0]!;
+}
+
+function scenarioMarkdown(sameAsStatementFideId: string): string {
+  return [
+    "# Example eval: owl:sameAs (Person)",
+    "",
+    "The example batch claims two person identifiers refer to the same person, with names,",
+    "a shared affiliation, a validFrom timestamp and a primary source for that timestamp.",
+    "",
+    `- Target statement: \`${sameAsStatementFideId}\``,
+    "- Method: `temporal-validity/owl-sameAs/Person@v1`",
+    "",
+    "Generate prompts for every consideration:",
+    "",
+    "```sh",
+    `fide eval prompt --target ${sameAsStatementFideId}`,
+    "```",
+    "",
+    "Record a decision once you have reviewed the evidence:",
+    "",
+    "```sh",
+    `fide eval add --target ${sameAsStatementFideId} --decision supports --confidence 0.9 --reason "Names, affiliation and source agree."`,
+    "```",
+    "",
+  ].join("\n");
+}
+
+/**
+ * Build the `--template example` statements: two Person identifiers linked by owl:sameAs plus the
+ * name, affiliation, validFrom and primary-source statements the owl:sameAs eval considers.
+ */
+export async function buildExampleWorkspace(): Promise<ExampleWorkspace> {
+  const person = networkRef(EXAMPLE_PERSON, "Person");
+  const alias = networkRef(EXAMPLE_PERSON_ALIAS, "Person");
+  const organization = networkRef(EXAMPLE_ORGANIZATION, "Organization");
+
+  const sameAs: StatementInput = { subject: person, predicate: predicate(OWL_SAME_AS_IRI), object: alias };
+  const validFrom: StatementInput = {
+    subject: statementRef(await buildOne(sameAs)),
+    predicate: predicate(SCHEMA_VALID_FROM_IRI),
+    object: { rawIdentifier: "2024-01-01T00:00:00Z", entityType: "DateTimeLiteral", sourceType: "DateTimeLiteral" },
+  };
+  const citation: StatementInput = {
+    subject: statementRef(await buildOne(validFrom)),
+    predicate: predicate(PROV_HAD_PRIMARY_SOURCE_IRI),
+    object: networkRef(EXAMPLE_SOURCE, "CreativeWork"),
+  };
+
+  const inputs: StatementInput[] = [
+    { subject: person, predicate: predicate(SCHEMA_NAME_IRI), object: text("Ada Lovelace") },
+    { subject: alias, predicate: predicate(SCHEMA_NAME_IRI), object: text("Ada King, Countess of Lovelace") },
+    { subject: person, predicate: predicate(SCHEMA_MEMBER_OF_IRI), object: organization },
+    { subject: alias, predicate: predicate(SCHEMA_MEMBER_OF_IRI), object: organization },
+    sameAs,
+    validFrom,
+    citation,
+  ];
+  const batch = await buildStatementsWithRoot(inputs, { normalizeRawIdentifier: true });
+  const sameAsStatement = batch.statements.find((statement) => statement.predicateRawIdentifier === OWL_SAME_AS_IRI)!;
+
+  return {
+    root: batch.root,
+    wireJsonl: formatStatementsAsWireJsonl(batch.statements),
+    statementCount: batch.statements.length,
+    sameAsStatementFideId: sameAsStatement.statementFideId,
+    scenarioMarkdown: scenarioMarkdown(sameAsStatement.statementFideId),
+  };
+}
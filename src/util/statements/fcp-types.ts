@@ -0,0 +1,188 @@
+import type { StatementInput } from "@chris-test/fcp";
+
+export type StatementEntityType = StatementInput["subject"]["entityType"] | StatementInput["object"]["entityType"];
+export type StatementSourceType = StatementInput["subject"]["sourceType"] | StatementInput["object"]["sourceType"];
+
+/**
+ * Literal fcp entity types. Literal references use the same value for source type.
+ */
+export const LITERAL_ENTITY_TYPES = [
+  "TextLiteral",
+  "IntegerLiteral",
+  "DecimalLiteral",
+  "BoolLiteral",
+  "DateLiteral",
+  "TimeLiteral",
+  "DateTimeLiteral",
+  "DurationLiteral",
+  "URILiteral",
+  "JSONLiteral",
+] as const satisfies readonly StatementEntityType[];
+
+/**
+ * Every fcp entity type accepted for subject/object references.
+ */
+export const ENTITY_TYPES = [
+  "Person",
+  "Organization",
+  "Place",
+  "Event",
+  "Product",
+  "CreativeWork",
+  "Concept",
+  "Statement",
+  ...LITERAL_ENTITY_TYPES,
+] as const satisfies readonly StatementEntityType[];
+
+/**
+ * Every fcp source type accepted for subject/object references.
+ */
+export const SOURCE_TYPES = [
+  "NetworkResource",
+  "Statement",
+  ...LITERAL_ENTITY_TYPES,
+] as const satisfies readonly StatementSourceType[];
+
+/**
+ * Compile-time check that a hand-listed enumeration covers every member of an fcp union.
+ * When fcp adds a type, the assertions below fail with `{ missing: "<NewType>" }` until it is listed here.
+ */
+type CoversUnion<List extends readonly string[], Union extends string> = [Exclude<Union, List[number]>] extends [never]
+  ? true
+  : { missing: Exclude<Union, List[number]> };
+type AssertCovers<T extends true> = T;
+
+export type EntityTypesCoverFcp = AssertCovers<CoversUnion<typeof ENTITY_TYPES, StatementEntityType>>;
+export type SourceTypesCoverFcp = AssertCovers<CoversUnion<typeof SOURCE_TYPES, StatementSourceType>>;
+export type LiteralTypesCoverFcp = AssertCovers<
+  CoversUnion<typeof LITERAL_ENTITY_TYPES, Extract<StatementEntityType, `${string}Literal`>>
+>;
+
+/**
+ * Check whether a string is a known fcp entity type.
+ */
+export function isEntityType(value: string): value is StatementEntityType {
+  return (ENTITY_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Check whether a string is a known fcp source type.
+ */
+export function isSourceType(value: string): value is StatementSourceType {
+  return (SOURCE_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Which names to use for the entity/source type fields in messages (`subjectType`, `--subject-type`, ...).
+ */
+export type ReferenceTypeLabels = {
+  entityType: string;
+  sourceType: string;
+};
+
+/**
+ * One problem with an entity/source type pair.
+ */
+export type ReferenceTypeProblem = {
+  code: "invalid-entity-type" | "invalid-source-type" | "invalid-type-combination";
+  field: "entityType" | "sourceType";
+  message: string;
+};
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i += 1) {
+    let diagonal = row[0]!;
+    row[0] = i;
+    for (let j = 1; j <= b.length; j += 1) {
+      const above = row[j]!;
+      row[j] = Math.min(above + 1, row[j - 1]! + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return row[b.length]!;
+}
+
+/**
+ * Pick the closest candidate for a mistyped name, or null when nothing is close enough.
+ */
+export function suggestClosest(value: string, candidates: readonly string[]): string | null {
+  const lower = value.toLowerCase();
+  const caseInsensitive = candidates.find((candidate) => candidate.toLowerCase() === lower);
+  if (caseInsensitive) return caseInsensitive;
+  const prefixed = lower.length >= 3 ? candidates.filter((candidate) => candidate.toLowerCase().startsWith(lower)) : [];
+  if (prefixed.length === 1) return prefixed[0]!;
+
+  let best: { candidate: string; distance: number } | null = null;
+  for (const candidate of candidates) {
+    const distance = editDistance(lower, candidate.toLowerCase());
+    if (!best || distance < best.distance) best = { candidate, distance };
+  }
+  const limit = Math.max(2, Math.floor(value.length / 3));
+  return best && best.distance <= limit ? best.candidate : null;
+}
+
+function unknownTypeMessage(label: string, value: string, kind: string, candidates: readonly string[]): string {
+  const suggestion = suggestClosest(value, candidates);
+  return suggestion
+    ? `${label} "${value}" is not a known ${kind}. Did you mean "${suggestion}"?`
+    : `${label} "${value}" is not a known ${kind}. Expected one of: ${candidates.join(", ")}.`;
+}
+
+/**
+ * Check one subject/object entity and source type pair against the fcp enumerations.
+ * Literal entity types must be paired with the same literal source type, and the
+ * `Statement` source type is only valid for `Statement` references.
+ */
+export function checkReferenceTypes(entityType: string, sourceType: string, labels: ReferenceTypeLabels): ReferenceTypeProblem[] {
+  const problems: ReferenceTypeProblem[] = [];
+  if (!isEntityType(entityType)) {
+    problems.push({
+      code: "invalid-entity-type",
+      field: "entityType",
+      message: unknownTypeMessage(labels.entityType, entityType, "entity type", ENTITY_TYPES),
+    });
+  }
+  if (!isSourceType(sourceType)) {
+    problems.push({
+      code: "invalid-source-type",
+      field: "sourceType",
+      message: unknownTypeMessage(labels.sourceType, sourceType, "source type", SOURCE_TYPES),
+    });
+  }
+  if (problems.length > 0) return problems;
+
+  const literalEntity = (LITERAL_ENTITY_TYPES as readonly string[]).includes(entityType);
+  const literalSource = (LITERAL_ENTITY_TYPES as readonly string[]).includes(sourceType);
+  if (literalEntity && sourceType !== entityType) {
+    problems.push({
+      code: "invalid-type-combination",
+      field: "sourceType",
+      message: `${labels.entityType} "${entityType}" requires ${labels.sourceType} "${entityType}" (got "${sourceType}").`,
+    });
+  } else if ((literalSource || sourceType === "Statement") && sourceType !== entityType) {
+    problems.push({
+      code: "invalid-type-combination",
+      field: "entityType",
+      message: `${labels.sourceType} "${sourceType}" is only valid with ${labels.entityType} "${sourceType}" (got "${entityType}").`,
+    });
+  }
+  return problems;
+}
+
+/**
+ * Read an entity type or list of entity types from a rule-like JSON object, suggesting fixes for typos.
+ */
+export function readTypeList(value: unknown, field: string, where: string): string[] | null {
+  if (value === undefined || value === null) return null;
+  const list = Array.isArray(value) ? value : [value];
+  if (list.length === 0 || list.some((item) => typeof item !== "string")) {
+    throw new Error(`${where}: "${field}" must be an entity type or a non-empty array of entity types.`);
+  }
+  for (const item of list as string[]) {
+    if (isEntityType(item)) continue;
+    const suggestion = suggestClosest(item, ENTITY_TYPES);
+    throw new Error(`${where}: unknown entity type "${item}" in "${field}".${suggestion ? ` Did you mean "${suggestion}"?` : ""}`);
+  }
+  return list as string[];
+}
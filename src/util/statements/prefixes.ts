@@ -0,0 +1,61 @@
+import { existsSync } from "node:fs";
+import { getFideConfig } from "../config.js";
+import { readUtf8 } from "../io.js";
+import { resolveWorkspacePath } from "../workspace.js";
+import { DEFAULT_RDF_PREFIXES } from "./targets/rdf.js";
+
+/**
+ * URI schemes that look like `prefix:local` but are never CURIEs.
+ */
+const NON_CURIE_SCHEMES = new Set(["did", "urn", "mailto", "tel", "data", "http", "https"]);
+
+const CURIE_PATTERN = /^([A-Za-z][A-Za-z0-9._-]*):([^\s/][^\s]*)?$/;
+
+/**
+ * Resolve the workspace prefix file (`.fide/prefixes.json`).
+ */
+export function resolvePrefixesPath(): string {
+  return resolveWorkspacePath(".fide", "prefixes.json");
+}
+
+/**
+ * Built-in prefixes merged with config `prefixes` and `.fide/prefixes.json` (`{ "ex": "https://example.org/" }`).
+ * Later sources override earlier ones with the same name.
+ */
+export async function loadWorkspacePrefixes(): Promise<Record<string, string>> {
+  const path = resolvePrefixesPath();
+  if (!existsSync(path)) return { ...DEFAULT_RDF_PREFIXES, ...getFideConfig().prefixes };
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await readUtf8(path)) as unknown;
+  } catch (error) {
+    throw new Error(`Invalid .fide/prefixes.json: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error("Invalid .fide/prefixes.json: expected an object of prefix -> namespace IRI.");
+  }
+  const prefixes = { ...DEFAULT_RDF_PREFIXES, ...getFideConfig().prefixes };
+  for (const [prefix, namespace] of Object.entries(parsed)) {
+    if (typeof namespace !== "string" || !namespace) {
+      throw new Error(`Invalid .fide/prefixes.json: namespace for "${prefix}" must be a non-empty string.`);
+    }
+    prefixes[prefix] = namespace;
+  }
+  return prefixes;
+}
+
+/**
+ * Expand a `prefix:local` CURIE against a prefix map.
+ * Full IRIs and non-CURIE schemes (`did:`, `urn:`, ...) pass through unchanged; returns
+ * `{ error }` when the value is a CURIE with an unknown prefix.
+ */
+export function expandCurie(value: string, prefixes: Record<string, string>): { value: string } | { error: string } {
+  const match = value.match(CURIE_PATTERN);
+  if (!match || NON_CURIE_SCHEMES.has(match[1]!.toLowerCase())) return { value };
+  const namespace = prefixes[match[1]!];
+  if (namespace === undefined) {
+    return { error: `Unknown prefix "${match[1]}" in "${value}". Known prefixes: ${Object.keys(prefixes).join(", ")}; add more in .fide/prefixes.json.` };
+  }
+  return { value: `${namespace}${match[2] ?? ""}` };
+}
@@ -0,0 +1,47 @@
+import { compactPredicateRawIdentifier, parseFideId } from "@chris-test/fcp";
+
+/**
+ * Statement fields needed to render a readable triple block.
+ */
+export type RenderableStatement = {
+  subjectFideId: string;
+  subjectRawIdentifier: string;
+  predicateRawIdentifier: string;
+  objectFideId: string;
+  objectRawIdentifier: string;
+};
+
+function toFideTypeCurie(entityType: string): string {
+  return `fide:${entityType}`;
+}
+
+/**
+ * Read entity/source types from a fide id, falling back to `Unknown` for malformed ids.
+ */
+export function parseFideIdTypes(fideId: string): { entityType: string; sourceType: string } {
+  try {
+    return parseFideId(fideId as `did:fide:0x${string}`);
+  } catch {
+    return { entityType: "Unknown", sourceType: "Unknown" };
+  }
+}
+
+/**
+ * Render a statement as `- subject/predicate/object` lines with fide type annotations.
+ * `subjectValue` overrides the printed subject (e.g. a prompt section reference).
+ */
+export function formatStatementTextBlock(statement: RenderableStatement, options?: { subjectValue?: string }): string {
+  const subject = parseFideIdTypes(statement.subjectFideId);
+  const object = parseFideIdTypes(statement.objectFideId);
+
+  const subjectPhrase = subject.entityType === "Statement"
+    ? "fide:Statement"
+    : `${toFideTypeCurie(subject.entityType)} (source ${toFideTypeCurie(subject.sourceType)})`;
+  const objectPhrase = `${toFideTypeCurie(object.entityType)} (source ${toFideTypeCurie(object.sourceType)})`;
+
+  return [
+    `- subject (${subjectPhrase}): ${options?.subjectValue ?? statement.subjectRawIdentifier}`,
+    `- predicate: ${compactPredicateRawIdentifier(statement.predicateRawIdentifier)}`,
+    `- object (${objectPhrase}): ${statement.objectRawIdentifier}`,
+  ].join("\n");
+}
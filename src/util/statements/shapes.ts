@@ -0,0 +1,208 @@
+import { existsSync } from "node:fs";
+import { readdir, stat } from "node:fs/promises";
+import { basename, resolve } from "node:path";
+import { readUtf8 } from "../io.js";
+import { resolveWorkspacePath } from "../workspace.js";
+import type { StatementDiagnostic } from "./diagnostics.js";
+import { readTypeList } from "./fcp-types.js";
+import { expandCurie, loadWorkspacePrefixes } from "./prefixes.js";
+import { parseFideIdTypes } from "./render.js";
+import type { StoredStatement } from "./store.js";
+import { VOCAB_IRIS } from "./vocab.js";
+
+/**
+ * One constraint on statements using a predicate.
+ * `subjectType`/`objectType` list the allowed entity types; `sameEntityType` requires
+ * subject and object to share one entity type.
+ */
+export type ShapeRule = {
+  id: string;
+  predicate: string;
+  predicateLabel: string;
+  subjectType: string[] | null;
+  objectType: string[] | null;
+  sameEntityType: boolean;
+  message: string | null;
+  source: string;
+};
+
+type RawShapeRule = {
+  id?: unknown;
+  predicate?: unknown;
+  subjectType?: unknown;
+  objectType?: unknown;
+  sameEntityType?: unknown;
+  message?: unknown;
+};
+
+function builtInRule(
+  id: string,
+  predicate: string,
+  predicateLabel: string,
+  constraints: { subjectType?: string[]; objectType?: string[]; sameEntityType?: boolean },
+): ShapeRule {
+  return {
+    id,
+    predicate,
+    predicateLabel,
+    subjectType: constraints.subjectType ?? null,
+    objectType: constraints.objectType ?? null,
+    sameEntityType: constraints.sameEntityType ?? false,
+    message: null,
+    source: "built-in",
+  };
+}
+
+/**
+ * Rules shipped with the CLI, matching what eval prompts assume about the graph
+ * (`owl:sameAs` links like entities, `schema:validFrom` qualifies a statement, ...).
+ * Loaded rules for the same predicate replace these.
+ */
+export const BUILT_IN_SHAPE_RULES: ShapeRule[] = [
+  builtInRule("built-in:owl-sameAs", VOCAB_IRIS.owlSameAs, "owl:sameAs", { sameEntityType: true }),
+  builtInRule("built-in:owl-differentFrom", VOCAB_IRIS.owlDifferentFrom, "owl:differentFrom", { sameEntityType: true }),
+  builtInRule("built-in:schema-validFrom", VOCAB_IRIS.schemaValidFrom, "schema:validFrom", {
+    subjectType: ["Statement"],
+    objectType: ["DateTimeLiteral", "DateLiteral"],
+  }),
+  builtInRule("built-in:schema-validThrough", VOCAB_IRIS.schemaValidThrough, "schema:validThrough", {
+    subjectType: ["Statement"],
+    objectType: ["DateTimeLiteral", "DateLiteral"],
+  }),
+  builtInRule("built-in:prov-hadPrimarySource", VOCAB_IRIS.provHadPrimarySource, "prov:hadPrimarySource", {
+    subjectType: ["Statement"],
+  }),
+  builtInRule("built-in:schema-name", VOCAB_IRIS.schemaName, "schema:name", { objectType: ["TextLiteral"] }),
+  builtInRule("built-in:schema-worksFor", VOCAB_IRIS.schemaWorksFor, "schema:worksFor", {
+    subjectType: ["Person"],
+    objectType: ["Organization"],
+  }),
+  builtInRule("built-in:schema-memberOf", VOCAB_IRIS.schemaMemberOf, "schema:memberOf", {
+    subjectType: ["Person", "Organization"],
+    objectType: ["Organization"],
+  }),
+  builtInRule("built-in:schema-affiliation", VOCAB_IRIS.schemaAffiliation, "schema:affiliation", {
+    subjectType: ["Person"],
+    objectType: ["Organization"],
+  }),
+];
+
+/**
+ * Resolve the workspace shapes directory (`.fide/shapes`).
+ */
+export function resolveShapesDir(): string {
+  return resolveWorkspacePath(".fide", "shapes");
+}
+
+function expandPredicate(value: string, where: string, prefixes: Record<string, string>): string {
+  const expanded = expandCurie(value, prefixes);
+  if ("error" in expanded) throw new Error(`${where}: ${expanded.error}`);
+  return expanded.value;
+}
+
+/**
+ * Parse one shapes file: `{ "rules": [...] }` or a bare array of rules.
+ */
+export function parseShapeRules(raw: string, source: string, prefixes: Record<string, string>): ShapeRule[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw) as unknown;
+  } catch (error) {
+    throw new Error(`${source}: invalid JSON (${error instanceof Error ? error.message : String(error)}).`);
+  }
+  const rules = Array.isArray(parsed) ? parsed : (parsed as { rules?: unknown } | null)?.rules;
+  if (!Array.isArray(rules)) {
+    throw new Error(`${source}: expected { "rules": [...] } or an array of rules.`);
+  }
+
+  return rules.map((item, index) => {
+    const where = `${source} rule ${index + 1}`;
+    const rule = (item ?? {}) as RawShapeRule;
+    if (typeof rule.predicate !== "string" || !rule.predicate) {
+      throw new Error(`${where}: "predicate" is required.`);
+    }
+    const subjectType = readTypeList(rule.subjectType, "subjectType", where);
+    const objectType = readTypeList(rule.objectType, "objectType", where);
+    const sameEntityType = rule.sameEntityType === true;
+    if (!subjectType && !objectType && !sameEntityType) {
+      throw new Error(`${where}: declare at least one of "subjectType", "objectType" or "sameEntityType".`);
+    }
+    return {
+      id: typeof rule.id === "string" && rule.id ? rule.id : `${basename(source)}#${index + 1}`,
+      predicate: expandPredicate(rule.predicate, where, prefixes),
+      predicateLabel: rule.predicate,
+      subjectType,
+      objectType,
+      sameEntityType,
+      message: typeof rule.message === "string" ? rule.message : null,
+      source,
+    };
+  });
+}
+
+/**
+ * Built-in rules merged with rules from `--shapes <file|dir>`, or from `.fide/shapes/*.json` when no path is given.
+ * A loaded rule for a predicate replaces every built-in rule for that predicate.
+ */
+export async function loadShapeRules(path?: string | null): Promise<ShapeRule[]> {
+  const target = path ? resolve(process.cwd(), path) : resolveShapesDir();
+  if (!existsSync(target)) {
+    if (path) throw new Error(`Shapes file not found: ${path}`);
+    return [...BUILT_IN_SHAPE_RULES];
+  }
+
+  const files = (await stat(target)).isDirectory()
+    ? (await readdir(target)).filter((name) => name.endsWith(".json")).sort().map((name) => resolve(target, name))
+    : [target];
+  const prefixes = await loadWorkspacePrefixes();
+  const rules: ShapeRule[] = [];
+  for (const file of files) {
+    rules.push(...parseShapeRules(await readUtf8(file), path ? file : `.fide/shapes/${basename(file)}`, prefixes));
+  }
+  const overridden = new Set(rules.map((rule) => rule.predicate));
+  return [...BUILT_IN_SHAPE_RULES.filter((rule) => !overridden.has(rule.predicate)), ...rules];
+}
+
+function describeTypes(types: string[]): string {
+  return types.length === 1 ? types[0]! : `one of ${types.join(", ")}`;
+}
+
+/**
+ * Check built or stored statements against shape rules, one diagnostic per violated constraint.
+ */
+export function checkStatementShapes(statements: StoredStatement[], rules: ShapeRule[]): StatementDiagnostic[] {
+  const diagnostics: StatementDiagnostic[] = [];
+  const rulesByPredicate = new Map<string, ShapeRule[]>();
+  for (const rule of rules) {
+    rulesByPredicate.set(rule.predicate, [...(rulesByPredicate.get(rule.predicate) ?? []), rule]);
+  }
+
+  for (const statement of statements) {
+    const matching = rulesByPredicate.get(statement.predicateRawIdentifier);
+    if (!matching) continue;
+    const subjectType = parseFideIdTypes(statement.subjectFideId).entityType;
+    const objectType = parseFideIdTypes(statement.objectFideId).entityType;
+
+    for (const rule of matching) {
+      const violations: string[] = [];
+      if (rule.subjectType && !rule.subjectType.includes(subjectType)) {
+        violations.push(`${rule.predicateLabel} requires subject type ${describeTypes(rule.subjectType)} (got ${subjectType})`);
+      }
+      if (rule.objectType && !rule.objectType.includes(objectType)) {
+        violations.push(`${rule.predicateLabel} requires object type ${describeTypes(rule.objectType)} (got ${objectType})`);
+      }
+      if (rule.sameEntityType && subjectType !== objectType) {
+        violations.push(`${rule.predicateLabel} requires subject and object of the same entity type (got ${subjectType} and ${objectType})`);
+      }
+      for (const violation of violations) {
+        diagnostics.push({
+          code: "shape-violation",
+          message: `${rule.message ?? violation}: ${statement.subjectRawIdentifier} -> ${statement.objectRawIdentifier} (rule ${rule.id}).`,
+          statementFideId: statement.statementFideId,
+          rule: rule.id,
+        });
+      }
+    }
+  }
+  return diagnostics;
+}
@@ -1,14 +1,73 @@
 import { getStringFlag } from "../../util/args.js";
 
-export type StatementsInputFormat = "json" | "jsonl" | "fsd";
+export const STATEMENTS_INPUT_FORMATS = ["json", "jsonl", "fsd", "nt", "ttl", "jsonld", "csv", "tsv"] as const;
+export const STATEMENTS_OUTPUT_FORMATS = ["json", "jsonl", "fsd"] as const;
+
+export type StatementsInputFormat = (typeof STATEMENTS_INPUT_FORMATS)[number];
+export type StatementsOutputFormat = (typeof STATEMENTS_OUTPUT_FORMATS)[number];
+export type StatementsConvertInputFormat = StatementsInputFormat | "wire";
+export type StatementsConvertOutputFormat = StatementsOutputFormat | "wire";
 
 /**
  * Parse optional `--format` flag into a supported statements input format.
  */
-export function parseStatementsInputFormat(value: string | null): StatementsInputFormat | null {
+export function parseStatementsInputFormat(
+  value: string | null,
+  flagName = "--format",
+): StatementsInputFormat | null {
   if (!value) return null;
-  if (value === "json" || value === "jsonl" || value === "fsd") return value;
-  throw new Error(`Invalid --format value: ${value}. Expected one of: json, jsonl, fsd.`);
+  if ((STATEMENTS_INPUT_FORMATS as readonly string[]).includes(value)) return value as StatementsInputFormat;
+  throw new Error(`Invalid ${flagName} value: ${value}. Expected one of: ${STATEMENTS_INPUT_FORMATS.join(", ")}.`);
+}
+
+/**
+ * Parse optional output format flag (`--to`) into a writable statements input format.
+ */
+export function parseStatementsOutputFormat(value: string | null, flagName = "--to"): StatementsOutputFormat | null {
+  if (!value) return null;
+  if ((STATEMENTS_OUTPUT_FORMATS as readonly string[]).includes(value)) return value as StatementsOutputFormat;
+  throw new Error(`Invalid ${flagName} value: ${value}. Expected one of: ${STATEMENTS_OUTPUT_FORMATS.join(", ")}.`);
+}
+
+/**
+ * Check whether an input format can also be written back out.
+ */
+export function isStatementsOutputFormat(format: StatementsInputFormat): format is StatementsOutputFormat {
+  return (STATEMENTS_OUTPUT_FORMATS as readonly string[]).includes(format);
+}
+
+/**
+ * Check whether a trimmed JSON payload looks like a JSON-LD document.
+ */
+function looksLikeJsonLd(trimmed: string): boolean {
+  if (!trimmed.startsWith("{") && !trimmed.startsWith("[")) return false;
+  try {
+    const parsed = JSON.parse(trimmed) as unknown;
+    const nodes = Array.isArray(parsed) ? parsed : [parsed];
+    return nodes.length > 0 && nodes.every(
+      (node) => typeof node === "object" && node !== null &&
+        ("@context" in node || "@graph" in node || "@id" in node),
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check whether newline-delimited JSON rows use the graph wire shape (`s`/`sr`/`p`/`pr`/`o`/`or`).
+ */
+export function isGraphStatementWireJsonl(raw: string): boolean {
+  const first = raw
+    .split("\n")
+    .map((line) => line.trim())
+    .find((line) => line.length > 0 && !line.startsWith("#"));
+  if (!first) return false;
+  try {
+    const row = JSON.parse(first) as Record<string, unknown>;
+    return typeof row.s === "string" && typeof row.sr === "string" && typeof row.p === "string";
+  } catch {
+    return false;
+  }
 }
 
 /**
@@ -19,6 +78,7 @@ export function detectStatementsInputFormat(raw: string): StatementsInputFormat
   if (!trimmed) throw new Error("Input payload is empty.");
 
   if (trimmed.startsWith("---")) return "fsd";
+  if (looksLikeJsonLd(trimmed)) return "jsonld";
   if (/^\[\s*[{"]/.test(trimmed)) return "json";
   if (/^\[\s*[A-Za-z][\w-]*\s*:/.test(trimmed)) return "fsd";
 
@@ -31,7 +91,22 @@ export function detectStatementsInputFormat(raw: string): StatementsInputFormat
     return "jsonl";
   }
 
-  throw new Error("Ambiguous input format. Pass --format <json|jsonl|fsd>.");
+  const headerCells = lines[0]?.split(/[\t,]/).map((cell) => cell.replace(/[^A-Za-z]/g, "").toLowerCase()) ?? [];
+  if (headerCells.includes("subject") && headerCells.includes("predicate")) {
+    return lines[0]!.includes("\t") ? "tsv" : "csv";
+  }
+
+  if (lines.some((line) => /^(@prefix|@base|PREFIX\s|BASE\s)/i.test(line))) {
+    return "ttl";
+  }
+  if (lines.length > 0 && lines.every((line) => /^<[^>]*>\s+<[^>]*>\s+.+\.$/.test(line))) {
+    return "nt";
+  }
+  if (lines.length > 0 && lines[lines.length - 1]!.endsWith(".") && /^(<|[A-Za-z][\w-]*:)/.test(lines[0]!)) {
+    return "ttl";
+  }
+
+  throw new Error(`Ambiguous input format. Pass --format <${STATEMENTS_INPUT_FORMATS.join("|")}>.`);
 }
 
 /**
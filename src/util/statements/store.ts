@@ -0,0 +1,118 @@
+import { readdir } from "node:fs/promises";
+import { resolve } from "node:path";
+import { parseGraphStatementBatchJsonl } from "@chris-test/graph";
+import { resolveConfiguredPath } from "../config.js";
+import { readUtf8 } from "../io.js";
+import { requireWorkspaceRoot } from "../workspace.js";
+
+/**
+ * Statement row loaded from a wire batch, keyed by its statement fide id.
+ */
+export type StoredStatement = {
+  statementFideId: string;
+  subjectFideId: string;
+  subjectRawIdentifier: string;
+  predicateFideId: string;
+  predicateRawIdentifier: string;
+  objectFideId: string;
+  objectRawIdentifier: string;
+};
+
+/**
+ * Parsed wire batch with its source path.
+ */
+export type StoredBatch = {
+  path: string;
+  root: string;
+  statements: StoredStatement[];
+};
+
+/**
+ * Project a built or parsed statement onto the stored statement shape.
+ */
+export function toStoredStatement(
+  statement: Omit<StoredStatement, "statementFideId">,
+  statementFideId: string,
+): StoredStatement {
+  return {
+    statementFideId,
+    subjectFideId: statement.subjectFideId,
+    subjectRawIdentifier: statement.subjectRawIdentifier,
+    predicateFideId: statement.predicateFideId,
+    predicateRawIdentifier: statement.predicateRawIdentifier,
+    objectFideId: statement.objectFideId,
+    objectRawIdentifier: statement.objectRawIdentifier,
+  };
+}
+
+/**
+ * Recursively collect `.jsonl` files under a directory.
+ */
+export async function collectJsonlFiles(dir: string): Promise<string[]> {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const files: string[] = [];
+  for (const entry of entries) {
+    const full = resolve(dir, entry.name);
+    if (entry.isDirectory()) files.push(...(await collectJsonlFiles(full)));
+    else if (entry.isFile() && full.endsWith(".jsonl")) files.push(full);
+  }
+  return files;
+}
+
+/**
+ * Resolve the local statements directory (`paths.statements` in config, default `.fide/statements`).
+ */
+export function resolveStatementsRoot(): string {
+  return resolveConfiguredPath("statements");
+}
+
+/**
+ * Resolve project statements output directory under `.fide/statements`.
+ */
+export function resolveStatementsDir(): string {
+  requireWorkspaceRoot();
+  return resolveStatementsRoot();
+}
+
+/**
+ * Format a date as UTC year/month/day path segments.
+ */
+export function ymdUtc(date: Date): { yyyy: string; mm: string; dd: string } {
+  const iso = date.toISOString().slice(0, 10);
+  const [yyyy, mm, dd] = iso.split("-");
+  return { yyyy, mm, dd };
+}
+
+/**
+ * Resolve the wire batch path `.fide/statements/YYYY/MM/DD/<root>.jsonl` for a batch root.
+ */
+export function resolveStatementBatchOutPath(root: string, date = new Date()): string {
+  const { yyyy, mm, dd } = ymdUtc(date);
+  return resolve(resolveStatementsDir(), yyyy, mm, dd, `${root}.jsonl`);
+}
+
+/**
+ * List every wire batch path under `.fide/statements`, sorted by path (oldest date first).
+ */
+export async function listStatementBatchPaths(): Promise<string[]> {
+  let files: string[];
+  try {
+    files = await collectJsonlFiles(resolveStatementsRoot());
+  } catch {
+    return [];
+  }
+  return files.sort();
+}
+
+/**
+ * Read and parse one wire batch file.
+ */
+export async function loadStatementBatch(path: string): Promise<StoredBatch> {
+  const raw = await readUtf8(path);
+  const parsed = await parseGraphStatementBatchJsonl(raw);
+  return {
+    path,
+    root: parsed.root,
+    statements: parsed.statements.map((statement, index) => toStoredStatement(statement, parsed.statementFideIds[index]!)),
+  };
+}
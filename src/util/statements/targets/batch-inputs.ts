@@ -0,0 +1,40 @@
+import { parseFideId, type StatementInput } from "@chris-test/fcp";
+
+/**
+ * Minimal statement shape shared by built batches and parsed wire batches.
+ */
+export type BatchStatementLike = {
+  subjectFideId: string;
+  subjectRawIdentifier: string;
+  predicateRawIdentifier: string;
+  objectFideId: string;
+  objectRawIdentifier: string;
+};
+
+/**
+ * Map built or parsed batch statements back into canonical `StatementInput[]`.
+ * Entity/source types are recovered from the subject/object fide ids.
+ */
+export function mapBatchStatementsToStatementInputs(statements: BatchStatementLike[]): StatementInput[] {
+  return statements.map((statement) => {
+    const subject = parseFideId(statement.subjectFideId as `did:fide:0x${string}`);
+    const object = parseFideId(statement.objectFideId as `did:fide:0x${string}`);
+    return {
+      subject: {
+        rawIdentifier: statement.subjectRawIdentifier,
+        entityType: subject.entityType,
+        sourceType: subject.sourceType,
+      },
+      predicate: {
+        rawIdentifier: statement.predicateRawIdentifier,
+        entityType: "Concept",
+        sourceType: "NetworkResource",
+      },
+      object: {
+        rawIdentifier: statement.objectRawIdentifier,
+        entityType: object.entityType,
+        sourceType: object.sourceType,
+      },
+    };
+  });
+}
@@ -0,0 +1,68 @@
+import { diagnosticFromError, type StatementDiagnostic } from "../diagnostics.js";
+import { detectStatementsInputFormat, isGraphStatementWireJsonl, type StatementsInputFormat } from "../shared.js";
+import type { StoredStatement } from "../store.js";
+import { collectJsonInputDiagnostics } from "./input-json.js";
+import { collectJsonlInputDiagnostics } from "./input-jsonl.js";
+import type { StatementsParseOptions } from "./parse-inputs.js";
+import { resolveBatchFromInput } from "./resolve-batch.js";
+import { collectWireDiagnostics } from "./wire.js";
+
+/**
+ * Result of checking one statement input: every problem found, plus the batch when it built cleanly.
+ */
+export type StatementInputReport = {
+  format: StatementsInputFormat;
+  diagnostics: StatementDiagnostic[];
+  batch: { root: string; statementCount: number; statements: StoredStatement[] } | null;
+};
+
+function collectStructuralDiagnostics(
+  raw: string,
+  format: StatementsInputFormat,
+  prefixes?: Record<string, string>,
+): StatementDiagnostic[] {
+  if (format === "json") return collectJsonInputDiagnostics(raw, prefixes);
+  if (format === "jsonl") {
+    return isGraphStatementWireJsonl(raw) ? collectWireDiagnostics(raw) : collectJsonlInputDiagnostics(raw, prefixes);
+  }
+  return [];
+}
+
+/**
+ * Report statements that collapse onto the same fide id once identifiers are normalized.
+ */
+function findDuplicateStatements(statements: StoredStatement[]): StatementDiagnostic[] {
+  const counts = new Map<string, { statement: StoredStatement; count: number }>();
+  for (const statement of statements) {
+    const entry = counts.get(statement.statementFideId) ?? { statement, count: 0 };
+    entry.count += 1;
+    counts.set(statement.statementFideId, entry);
+  }
+  return [...counts.values()]
+    .filter((entry) => entry.count > 1)
+    .map(({ statement, count }) => ({
+      code: "duplicate-statement",
+      message: `Statement ${statement.statementFideId} (${statement.subjectRawIdentifier} ${statement.predicateRawIdentifier} ${statement.objectRawIdentifier}) appears ${count} times.`,
+    }));
+}
+
+/**
+ * Check statement input without stopping at the first problem.
+ * JSON/JSONL inputs and wire batches report every bad item with its position; other formats
+ * report their first parse error. Inputs that parse are built, then checked for duplicates.
+ */
+export async function diagnoseStatementInput(
+  raw: string,
+  options?: { format?: StatementsInputFormat | null; normalizeRawIdentifier?: boolean } & StatementsParseOptions,
+): Promise<StatementInputReport> {
+  const format = options?.format ?? detectStatementsInputFormat(raw);
+  const structural = collectStructuralDiagnostics(raw, format, options?.prefixes);
+  if (structural.length > 0) return { format, diagnostics: structural, batch: null };
+
+  try {
+    const batch = await resolveBatchFromInput(raw, { ...options, format });
+    return { format, diagnostics: findDuplicateStatements(batch.statements), batch };
+  } catch (error) {
+    return { format, diagnostics: [diagnosticFromError(error)], batch: null };
+  }
+}
@@ -0,0 +1,14 @@
+import type { StatementInput } from "@chris-test/fcp";
+import type { StatementsOutputFormat } from "../shared.js";
+import { formatJsonInputs } from "./input-json.js";
+import { formatJsonlInputs } from "./input-jsonl.js";
+import { formatStatementDocInputs } from "./input-statement-doc.js";
+
+/**
+ * Format `StatementInput[]` into raw input text for the requested format.
+ */
+export function formatStatementInputsByFormat(inputs: StatementInput[], format: StatementsOutputFormat): string {
+  if (format === "json") return formatJsonInputs(inputs);
+  if (format === "jsonl") return formatJsonlInputs(inputs);
+  return formatStatementDocInputs(inputs);
+}
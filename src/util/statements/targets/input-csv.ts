@@ -0,0 +1,212 @@
+import type { StatementInput } from "@chris-test/fcp";
+import { getStringFlag } from "../../args.js";
+import { readUtf8 } from "../../io.js";
+import { summarizeStatementDiagnostics } from "../diagnostics.js";
+import { ADD_INPUT_FIELDS, checkAddInputItem, mapSingleStatementInput, type AddStatementInput } from "./input-json.js";
+
+type AddInputField = keyof AddStatementInput;
+
+/**
+ * Header-to-field mapping plus constant values for spreadsheet inputs.
+ */
+export type CsvColumnMapping = {
+  columns: Partial<Record<AddInputField, string>>;
+  constants: Partial<Record<AddInputField, string>>;
+};
+
+type CsvRecord = {
+  line: number;
+  cells: string[];
+};
+
+function normalizeHeader(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function columnLetter(index: number): string {
+  let n = index + 1;
+  let letters = "";
+  while (n > 0) {
+    const rem = (n - 1) % 26;
+    letters = String.fromCharCode(65 + rem) + letters;
+    n = Math.floor((n - 1) / 26);
+  }
+  return letters;
+}
+
+function toAddInputField(value: string, source: string): AddInputField {
+  const match = ADD_INPUT_FIELDS.find((field) => normalizeHeader(field) === normalizeHeader(value));
+  if (!match) {
+    throw new Error(`Unknown statement field "${value}" in ${source}. Expected one of: ${ADD_INPUT_FIELDS.join(", ")}.`);
+  }
+  return match;
+}
+
+/**
+ * Split delimited text into records, honoring double-quoted cells with embedded delimiters/newlines.
+ */
+function parseDelimitedRecords(raw: string, delimiter: "," | "\t"): CsvRecord[] {
+  const records: CsvRecord[] = [];
+  let cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+  let cellStarted = false;
+
+  const endRecord = () => {
+    cells.push(cell);
+    if (!(cells.length === 1 && cells[0]!.trim() === "")) {
+      records.push({ line: recordLine, cells });
+    }
+    cells = [];
+    cell = "";
+    cellStarted = false;
+  };
+
+  for (let i = 0; i < raw.length; i += 1) {
+    const char = raw[i]!;
+    if (quoted) {
+      if (char === '"' && raw[i + 1] === '"') {
+        cell += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === "\n") line += 1;
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && !cellStarted) {
+      quoted = true;
+      cellStarted = true;
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = "";
+      cellStarted = false;
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && raw[i + 1] === "\n") i += 1;
+      endRecord();
+      line += 1;
+      recordLine = line;
+    } else {
+      cell += char;
+      cellStarted = true;
+    }
+  }
+
+  if (quoted) {
+    throw new Error(`Unterminated quoted cell starting in row ${recordLine}.`);
+  }
+  if (cell.length > 0 || cells.length > 0) endRecord();
+  return records;
+}
+
+/**
+ * Parse CSV/TSV rows into `StatementInput[]` using header-based column mapping.
+ * Headers match statement fields case-insensitively (`subject_type`, `Subject Type`, ...)
+ * unless the mapping overrides them; constants fill fields for every row.
+ */
+export function parseDelimitedInputs(
+  raw: string,
+  format: "csv" | "tsv",
+  mapping?: CsvColumnMapping | null,
+  prefixes?: Record<string, string>,
+): StatementInput[] {
+  if (!raw.trim()) {
+    throw new Error("Input payload is empty.");
+  }
+
+  const [header, ...rows] = parseDelimitedRecords(raw.replace(/^\uFEFF/, ""), format === "csv" ? "," : "\t");
+  if (!header) throw new Error("Input payload is empty.");
+  if (rows.length === 0) throw new Error("Input payload has a header row but no statement rows.");
+
+  const headers = header.cells.map((cell) => cell.trim());
+  const columnIndex = new Map<AddInputField, number>();
+  for (const field of ADD_INPUT_FIELDS) {
+    const mapped = mapping?.columns[field];
+    if (mapped) {
+      const index = headers.findIndex((name) => name === mapped);
+      if (index < 0) {
+        throw new Error(`Mapped column "${mapped}" for ${field} not found in header row. Headers: ${headers.join(", ")}.`);
+      }
+      columnIndex.set(field, index);
+      continue;
+    }
+    const index = headers.findIndex((name) => normalizeHeader(name) === normalizeHeader(field));
+    if (index >= 0) columnIndex.set(field, index);
+  }
+
+  const unresolved = ADD_INPUT_FIELDS.filter((field) => !columnIndex.has(field) && !mapping?.constants[field]);
+  if (unresolved.length > 0) {
+    throw new Error(
+      `No column for ${unresolved.join(", ")}. Add matching headers, map them with --map, or set constants with --set.`,
+    );
+  }
+
+  const values = rows.map((row) => {
+    const value = {} as AddStatementInput;
+    for (const field of ADD_INPUT_FIELDS) {
+      const index = columnIndex.get(field);
+      const cell = index === undefined ? mapping?.constants[field] : row.cells[index]?.trim() || mapping?.constants[field];
+      if (!cell) {
+        const where = index === undefined ? field : `"${headers[index]}" (${columnLetter(index)})`;
+        throw new Error(`Row ${row.line}, column ${where}: missing value for ${field}.`);
+      }
+      value[field] = cell;
+    }
+    return value;
+  });
+
+  const diagnostics = values.flatMap((value, index) =>
+    checkAddInputItem(value, { item: index + 1, line: rows[index]!.line }, prefixes),
+  );
+  if (diagnostics.length > 0) {
+    throw new Error(summarizeStatementDiagnostics(diagnostics));
+  }
+  return values.map((value) => mapSingleStatementInput(value, prefixes));
+}
+
+function parseAssignments(value: string, flagName: string): Array<[AddInputField, string]> {
+  return value
+    .split(",")
+    .map((pair) => pair.trim())
+    .filter((pair) => pair.length > 0)
+    .map((pair) => {
+      const eqIndex = pair.indexOf("=");
+      if (eqIndex <= 0) throw new Error(`Invalid ${flagName} entry "${pair}". Expected <field>=<value>.`);
+      return [toAddInputField(pair.slice(0, eqIndex).trim(), flagName), pair.slice(eqIndex + 1).trim()];
+    });
+}
+
+/**
+ * Resolve CSV/TSV column mapping from `--map` and `--set` flags.
+ * `--map` is either `field=Header,...` or a JSON file `{ "columns": {...}, "constants": {...} }`.
+ */
+export async function readCsvColumnMappingFlags(flags: Map<string, string | boolean>): Promise<CsvColumnMapping | null> {
+  const mapFlag = getStringFlag(flags, "map");
+  const setFlag = getStringFlag(flags, "set");
+  if (!mapFlag && !setFlag) return null;
+
+  const mapping: CsvColumnMapping = { columns: {}, constants: {} };
+  if (mapFlag && mapFlag.endsWith(".json")) {
+    const parsed = JSON.parse(await readUtf8(mapFlag)) as {
+      columns?: Record<string, string>;
+      constants?: Record<string, string>;
+    };
+    for (const [field, column] of Object.entries(parsed.columns ?? {})) {
+      mapping.columns[toAddInputField(field, mapFlag)] = column;
+    }
+    for (const [field, value] of Object.entries(parsed.constants ?? {})) {
+      mapping.constants[toAddInputField(field, mapFlag)] = value;
+    }
+  } else if (mapFlag) {
+    for (const [field, column] of parseAssignments(mapFlag, "--map")) mapping.columns[field] = column;
+  }
+  if (setFlag) {
+    for (const [field, value] of parseAssignments(setFlag, "--set")) mapping.constants[field] = value;
+  }
+  return mapping;
+}
@@ -1,6 +1,15 @@
 import type { StatementInput } from "@chris-test/fcp";
+import {
+  diagnosticFromJsonError,
+  summarizeStatementDiagnostics,
+  toSourcePosition,
+  type StatementDiagnostic,
+} from "../diagnostics.js";
+import { checkReferenceTypes, isEntityType, isSourceType } from "../fcp-types.js";
+import { expandCurie } from "../prefixes.js";
+import { DEFAULT_RDF_PREFIXES } from "./rdf.js";
 
-type AddStatementInput = {
+export type AddStatementInput = {
   subject: string;
   subjectType: string;
   subjectSource: string;
@@ -10,22 +19,192 @@ type AddStatementInput = {
   objectSource: string;
 };
 
+/**
+ * Fields every add-input row must provide, in canonical order.
+ */
+export const ADD_INPUT_FIELDS: Array<keyof AddStatementInput> = [
+  "subject",
+  "subjectType",
+  "subjectSource",
+  "predicate",
+  "object",
+  "objectType",
+  "objectSource",
+];
+
+/**
+ * Fields that may be written as CURIEs, with the source field that must be `NetworkResource`
+ * for expansion to apply (predicates always expand).
+ */
+const CURIE_FIELDS: Array<{ field: "subject" | "predicate" | "object"; sourceField: "subjectSource" | "objectSource" | null }> = [
+  { field: "subject", sourceField: "subjectSource" },
+  { field: "predicate", sourceField: null },
+  { field: "object", sourceField: "objectSource" },
+];
+
+/**
+ * Check one add-input item, returning every missing field, unknown type, unknown prefix and bad value found.
+ */
+export function checkAddInputItem(
+  item: unknown,
+  position: { item: number; line?: number; column?: number },
+  prefixes: Record<string, string> = DEFAULT_RDF_PREFIXES,
+): StatementDiagnostic[] {
+  if (!item || typeof item !== "object" || Array.isArray(item)) {
+    return [{ ...position, code: "invalid-item", message: "Statement input must be an object." }];
+  }
+
+  const candidate = item as Record<string, unknown>;
+  const diagnostics: StatementDiagnostic[] = [];
+  for (const field of ADD_INPUT_FIELDS) {
+    const value = candidate[field];
+    if (value === undefined || value === null || value === "") {
+      diagnostics.push({ ...position, field, code: "missing-field", message: `Missing required field "${field}".` });
+    } else if (typeof value !== "string") {
+      diagnostics.push({ ...position, field, code: "invalid-field", message: `Field "${field}" must be a string.` });
+    }
+  }
+
+  for (const role of ["subject", "object"] as const) {
+    const typeField = `${role}Type` as const;
+    const sourceField = `${role}Source` as const;
+    const entityType = candidate[typeField];
+    const sourceType = candidate[sourceField];
+    if (typeof entityType !== "string" || !entityType || typeof sourceType !== "string" || !sourceType) continue;
+    for (const problem of checkReferenceTypes(entityType, sourceType, { entityType: typeField, sourceType: sourceField })) {
+      diagnostics.push({
+        ...position,
+        field: problem.field === "entityType" ? typeField : sourceField,
+        code: problem.code,
+        message: problem.message,
+      });
+    }
+  }
+
+  for (const { field, sourceField } of CURIE_FIELDS) {
+    const value = candidate[field];
+    if (typeof value !== "string" || (sourceField && candidate[sourceField] !== "NetworkResource")) continue;
+    const expanded = expandCurie(value, prefixes);
+    if ("error" in expanded) {
+      diagnostics.push({ ...position, field, code: "unknown-prefix", message: expanded.error });
+    }
+  }
+  return diagnostics;
+}
+
+/**
+ * Expand CURIEs in the predicate and in `NetworkResource` subject/object identifiers.
+ */
+function expandAddInputCuries(input: AddStatementInput, prefixes: Record<string, string>): AddStatementInput {
+  const expanded = { ...input };
+  for (const { field, sourceField } of CURIE_FIELDS) {
+    if (sourceField && input[sourceField] !== "NetworkResource") continue;
+    const result = expandCurie(input[field], prefixes);
+    if ("value" in result) expanded[field] = result.value;
+  }
+  return expanded;
+}
+
+/**
+ * Report items that repeat an earlier item field for field.
+ */
+export function findDuplicateAddInputs(
+  items: Array<{ value: unknown; position: { item: number; line?: number; column?: number } }>,
+): StatementDiagnostic[] {
+  const firstByKey = new Map<string, number>();
+  const diagnostics: StatementDiagnostic[] = [];
+  for (const { value, position } of items) {
+    if (!value || typeof value !== "object") continue;
+    const candidate = value as Record<string, unknown>;
+    const key = JSON.stringify(ADD_INPUT_FIELDS.map((field) => candidate[field] ?? null));
+    const first = firstByKey.get(key);
+    if (first === undefined) {
+      firstByKey.set(key, position.item);
+      continue;
+    }
+    diagnostics.push({ ...position, code: "duplicate-statement", message: `Duplicate of item ${first}.` });
+  }
+  return diagnostics;
+}
+
+/**
+ * Find the start offset of every top-level element in a JSON array payload.
+ */
+function locateJsonArrayItems(raw: string): number[] {
+  const offsets: number[] = [];
+  let depth = 0;
+  let inString = false;
+  let expectItem = false;
+  for (let i = 0; i < raw.length; i += 1) {
+    const char = raw[i]!;
+    if (inString) {
+      if (char === "\\") i += 1;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (/\s/.test(char)) continue;
+    if (expectItem && char !== "]") {
+      offsets.push(i);
+      expectItem = false;
+    }
+    if (char === '"') inString = true;
+    else if (char === "[" || char === "{") {
+      depth += 1;
+      if (depth === 1 && char === "[") expectItem = true;
+    } else if (char === "]" || char === "}") depth -= 1;
+    else if (char === "," && depth === 1) expectItem = true;
+  }
+  return offsets;
+}
+
+/**
+ * Collect every problem in a JSON array payload: syntax errors, bad items and duplicates.
+ */
+export function collectJsonInputDiagnostics(
+  raw: string,
+  prefixes: Record<string, string> = DEFAULT_RDF_PREFIXES,
+): StatementDiagnostic[] {
+  if (!raw.trim()) return [{ code: "empty-input", message: "Input payload is empty." }];
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw) as unknown;
+  } catch (error) {
+    return [diagnosticFromJsonError(error, raw)];
+  }
+  if (!Array.isArray(parsed) || parsed.length === 0) {
+    return [{ code: "invalid-payload", message: "Expected non-empty array of statement inputs." }];
+  }
+
+  const offsets = locateJsonArrayItems(raw);
+  const items = parsed.map((value, index) => {
+    const offset = offsets[index];
+    return {
+      value,
+      position: { item: index + 1, ...(offset === undefined ? {} : toSourcePosition(raw, offset)) },
+    };
+  });
+  return [
+    ...items.flatMap(({ value, position }) => checkAddInputItem(value, position, prefixes)),
+    ...findDuplicateAddInputs(items),
+  ];
+}
+
 /**
  * Validate raw JSON payload shape for statements add input.
  */
-function normalizeAddInputs(parsed: unknown): AddStatementInput[] {
+function normalizeAddInputs(parsed: unknown, prefixes: Record<string, string>): AddStatementInput[] {
   if (!Array.isArray(parsed) || parsed.length === 0) {
     throw new Error("Invalid input payload. Expected non-empty array of statement inputs.");
   }
 
+  const diagnostics = parsed.flatMap((item, index) => checkAddInputItem(item, { item: index + 1 }, prefixes));
+  if (diagnostics.length > 0) {
+    throw new Error(summarizeStatementDiagnostics(diagnostics));
+  }
+
   return parsed.map((item) => {
-    const candidate = item as Partial<AddStatementInput>;
-    if (
-      !candidate.subject || !candidate.subjectType || !candidate.subjectSource ||
-      !candidate.predicate || !candidate.object || !candidate.objectType || !candidate.objectSource
-    ) {
-      throw new Error("Invalid input item. Each item must include subject/subjectType/subjectSource/predicate/object/objectType/objectSource.");
-    }
+    const candidate = item as AddStatementInput;
     return {
       subject: candidate.subject,
       subjectType: candidate.subjectType,
@@ -40,43 +219,95 @@ function normalizeAddInputs(parsed: unknown): AddStatementInput[] {
 
 /**
  * Convert CLI add-input rows into canonical `StatementInput` values.
+ * Entity/source types are checked against the fcp enumerations before they are narrowed,
+ * and CURIEs are expanded so wire output always carries full IRIs.
  */
-function mapAddInputsToStatementInputs(inputs: AddStatementInput[]): StatementInput[] {
-  return inputs.map((input) => ({
-    subject: {
-      rawIdentifier: input.subject,
-      entityType: input.subjectType as StatementInput["subject"]["entityType"],
-      sourceType: input.subjectSource as StatementInput["subject"]["sourceType"],
-    },
-    predicate: {
-      rawIdentifier: input.predicate,
-      entityType: "Concept",
-      sourceType: "NetworkResource",
-    },
-    object: {
-      rawIdentifier: input.object,
-      entityType: input.objectType as StatementInput["object"]["entityType"],
-      sourceType: input.objectSource as StatementInput["object"]["sourceType"],
-    },
-  }));
+function mapAddInputsToStatementInputs(inputs: AddStatementInput[], prefixes: Record<string, string>): StatementInput[] {
+  const diagnostics = inputs.flatMap((input, index) => checkAddInputItem(input, { item: index + 1 }, prefixes));
+  if (diagnostics.length > 0) {
+    throw new Error(summarizeStatementDiagnostics(diagnostics));
+  }
+
+  return inputs.map((row, index) => {
+    const input = expandAddInputCuries(row, prefixes);
+    const { subjectType, subjectSource, objectType, objectSource } = input;
+    if (!isEntityType(subjectType) || !isSourceType(subjectSource) || !isEntityType(objectType) || !isSourceType(objectSource)) {
+      throw new Error(`Item ${index + 1}: entity/source types are not fcp types.`);
+    }
+    return {
+      subject: {
+        rawIdentifier: input.subject,
+        entityType: subjectType,
+        sourceType: subjectSource,
+      },
+      predicate: {
+        rawIdentifier: input.predicate,
+        entityType: "Concept",
+        sourceType: "NetworkResource",
+      },
+      object: {
+        rawIdentifier: input.object,
+        entityType: objectType,
+        sourceType: objectSource,
+      },
+    };
+  });
 }
 
 /**
  * Parse statement inputs from JSON array payload.
  */
-export function parseJsonInputs(raw: string): StatementInput[] {
+export function parseJsonInputs(raw: string, prefixes: Record<string, string> = DEFAULT_RDF_PREFIXES): StatementInput[] {
   const trimmed = raw.trim();
   if (!trimmed) {
     throw new Error("Input payload is empty.");
   }
 
-  const parsed = JSON.parse(trimmed) as unknown;
-  return mapAddInputsToStatementInputs(normalizeAddInputs(parsed));
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw) as unknown;
+  } catch (error) {
+    const diagnostic = diagnosticFromJsonError(error, raw);
+    throw new Error(`${diagnostic.message} (line ${diagnostic.line}, column ${diagnostic.column})`);
+  }
+  return mapAddInputsToStatementInputs(normalizeAddInputs(parsed, prefixes), prefixes);
+}
+
+/**
+ * Validate parsed add-input items and convert them into canonical `StatementInput` values.
+ */
+export function mapAddInputItems(items: unknown[], prefixes: Record<string, string> = DEFAULT_RDF_PREFIXES): StatementInput[] {
+  return mapAddInputsToStatementInputs(normalizeAddInputs(items, prefixes), prefixes);
 }
 
 /**
  * Map one ad-hoc statement row into a canonical `StatementInput`.
  */
-export function mapSingleStatementInput(input: AddStatementInput): StatementInput {
-  return mapAddInputsToStatementInputs([input])[0];
+export function mapSingleStatementInput(
+  input: AddStatementInput,
+  prefixes: Record<string, string> = DEFAULT_RDF_PREFIXES,
+): StatementInput {
+  return mapAddInputsToStatementInputs([input], prefixes)[0];
+}
+
+/**
+ * Map canonical `StatementInput` values back into CLI add-input rows.
+ */
+export function mapStatementInputsToAddInputs(inputs: StatementInput[]): AddStatementInput[] {
+  return inputs.map((input) => ({
+    subject: input.subject.rawIdentifier,
+    subjectType: input.subject.entityType,
+    subjectSource: input.subject.sourceType,
+    predicate: input.predicate.rawIdentifier,
+    object: input.object.rawIdentifier,
+    objectType: input.object.entityType,
+    objectSource: input.object.sourceType,
+  }));
+}
+
+/**
+ * Format statement inputs as a JSON array payload.
+ */
+export function formatJsonInputs(inputs: StatementInput[]): string {
+  return `${JSON.stringify(mapStatementInputsToAddInputs(inputs), null, 2)}\n`;
 }
@@ -1,20 +1,84 @@
 import type { StatementInput } from "@chris-test/fcp";
-import { parseJsonInputs } from "./input-json.js";
+import {
+  diagnosticFromJsonError,
+  summarizeStatementDiagnostics,
+  type StatementDiagnostic,
+} from "../diagnostics.js";
+import {
+  checkAddInputItem,
+  findDuplicateAddInputs,
+  mapAddInputItems,
+  mapStatementInputsToAddInputs,
+} from "./input-json.js";
+import { DEFAULT_RDF_PREFIXES } from "./rdf.js";
+
+type JsonlRow = {
+  value: unknown;
+  position: { item: number; line: number; column: number };
+};
+
+function byLine(a: StatementDiagnostic, b: StatementDiagnostic): number {
+  return (a.line ?? 0) - (b.line ?? 0);
+}
+
+/**
+ * Parse JSONL lines, keeping each row's source line and collecting syntax errors instead of throwing.
+ */
+function readJsonlRows(raw: string): { rows: JsonlRow[]; diagnostics: StatementDiagnostic[] } {
+  const rows: JsonlRow[] = [];
+  const diagnostics: StatementDiagnostic[] = [];
+  let item = 0;
+  raw.split("\n").forEach((text, index) => {
+    const trimmed = text.trim();
+    if (trimmed.length === 0 || trimmed.startsWith("#")) return;
+    const line = index + 1;
+    item += 1;
+    try {
+      const column = text.length - text.trimStart().length + 1;
+      rows.push({ value: JSON.parse(text) as unknown, position: { item, line, column } });
+    } catch (error) {
+      diagnostics.push({ ...diagnosticFromJsonError(error, text, { line }), item });
+    }
+  });
+  return { rows, diagnostics };
+}
+
+/**
+ * Collect every problem in a JSONL payload: per-line syntax errors, bad rows and duplicates.
+ */
+export function collectJsonlInputDiagnostics(
+  raw: string,
+  prefixes: Record<string, string> = DEFAULT_RDF_PREFIXES,
+): StatementDiagnostic[] {
+  if (!raw.trim()) return [{ code: "empty-input", message: "Input payload is empty." }];
+  const { rows, diagnostics } = readJsonlRows(raw);
+  return [
+    ...diagnostics,
+    ...rows.flatMap((row) => checkAddInputItem(row.value, row.position, prefixes)),
+    ...findDuplicateAddInputs(rows),
+  ].sort(byLine);
+}
 
 /**
  * Parse newline-delimited JSON statement rows into `StatementInput[]`.
  */
-export function parseJsonlInputs(raw: string): StatementInput[] {
-  const trimmed = raw.trim();
-  if (!trimmed) {
+export function parseJsonlInputs(raw: string, prefixes: Record<string, string> = DEFAULT_RDF_PREFIXES): StatementInput[] {
+  if (!raw.trim()) {
     throw new Error("Input payload is empty.");
   }
 
-  const rows = trimmed
-    .split("\n")
-    .map((line) => line.trim())
-    .filter((line) => line.length > 0 && !line.startsWith("#"))
-    .map((line) => JSON.parse(line) as unknown);
+  const { rows, diagnostics } = readJsonlRows(raw);
+  const problems = [...diagnostics, ...rows.flatMap((row) => checkAddInputItem(row.value, row.position, prefixes))].sort(byLine);
+  if (problems.length > 0) {
+    throw new Error(summarizeStatementDiagnostics(problems));
+  }
+
+  return mapAddInputItems(rows.map((row) => row.value), prefixes);
+}
 
-  return parseJsonInputs(JSON.stringify(rows));
+/**
+ * Format statement inputs as newline-delimited JSON rows.
+ */
+export function formatJsonlInputs(inputs: StatementInput[]): string {
+  return `${mapStatementInputsToAddInputs(inputs).map((row) => JSON.stringify(row)).join("\n")}\n`;
 }
@@ -0,0 +1,207 @@
+import type { StatementInput } from "@chris-test/fcp";
+import {
+  DEFAULT_RDF_PREFIXES,
+  RDF_LANG_STRING_IRI,
+  RDF_TYPE_IRI,
+  XSD_NS,
+  XSD_STRING_IRI,
+  expandPrefixedName,
+  mapRdfTriplesToStatementInputs,
+  type RdfNamedNode,
+  type RdfTerm,
+  type RdfTriple,
+} from "./rdf.js";
+
+type TermDefinition = { iri: string; type: string | null };
+
+type JsonLdContext = {
+  terms: Map<string, TermDefinition>;
+  vocab: string | null;
+  base: string | null;
+};
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isAbsoluteIri(value: string): boolean {
+  return /^[A-Za-z][A-Za-z0-9+.-]*:/.test(value);
+}
+
+/**
+ * Expand a term, CURIE or IRI against the active context.
+ */
+function expandIri(value: string, context: JsonLdContext, options: { vocab: boolean }): string {
+  const term = context.terms.get(value);
+  if (term) return term.iri;
+
+  const colon = value.indexOf(":");
+  if (colon > 0 && !value.slice(colon + 1).startsWith("//")) {
+    const prefix = context.terms.get(value.slice(0, colon));
+    if (prefix) return `${prefix.iri}${value.slice(colon + 1)}`;
+    const builtin = expandPrefixedName(value, DEFAULT_RDF_PREFIXES);
+    if (builtin) return builtin;
+  }
+  if (isAbsoluteIri(value)) return value;
+  if (options.vocab && context.vocab) return `${context.vocab}${value}`;
+  if (!options.vocab && context.base) return new URL(value, context.base).toString();
+  throw new Error(`Cannot expand "${value}" to an IRI. Declare it in @context.`);
+}
+
+/**
+ * Merge one `@context` value into the active context.
+ */
+function applyContext(parent: JsonLdContext, value: unknown): JsonLdContext {
+  if (value === undefined || value === null) return parent;
+  if (Array.isArray(value)) return value.reduce<JsonLdContext>((acc, item) => applyContext(acc, item), parent);
+  if (typeof value === "string") {
+    throw new Error(`Remote JSON-LD contexts are not supported: ${value}. Inline the @context instead.`);
+  }
+  if (!isObject(value)) throw new Error("Invalid JSON-LD @context.");
+
+  const context: JsonLdContext = { terms: new Map(parent.terms), vocab: parent.vocab, base: parent.base };
+  if (typeof value["@vocab"] === "string") context.vocab = expandIri(value["@vocab"], context, { vocab: false });
+  if (typeof value["@base"] === "string") context.base = value["@base"];
+
+  // Define prefix-style terms first so later definitions can use them as CURIEs.
+  const entries = Object.entries(value).filter(([key]) => !key.startsWith("@"));
+  const pending = new Map(entries);
+  for (let pass = 0; pass < entries.length && pending.size > 0; pass += 1) {
+    for (const [key, definition] of [...pending]) {
+      try {
+        if (typeof definition === "string") {
+          context.terms.set(key, { iri: expandIri(definition, context, { vocab: true }), type: null });
+        } else if (isObject(definition)) {
+          const id = typeof definition["@id"] === "string" ? definition["@id"] : key;
+          const type = typeof definition["@type"] === "string"
+            ? (definition["@type"] === "@id" || definition["@type"] === "@vocab"
+              ? definition["@type"]
+              : expandIri(definition["@type"], context, { vocab: true }))
+            : null;
+          context.terms.set(key, { iri: expandIri(id, context, { vocab: true }), type });
+        } else {
+          throw new Error(`Invalid JSON-LD term definition for "${key}".`);
+        }
+        pending.delete(key);
+      } catch (error) {
+        if (pass === entries.length - 1) throw error;
+      }
+    }
+  }
+  return context;
+}
+
+function nodeId(node: JsonObject, context: JsonLdContext, path: string): RdfNamedNode {
+  const id = node["@id"];
+  if (typeof id !== "string") {
+    throw new Error(`JSON-LD node at ${path} is missing "@id". Blank nodes are not supported.`);
+  }
+  return { termType: "NamedNode", value: expandIri(id, context, { vocab: false }) };
+}
+
+/**
+ * Convert one property value into an RDF object term, emitting nested node triples as needed.
+ */
+function valueToTerm(
+  value: unknown,
+  definition: TermDefinition | null,
+  context: JsonLdContext,
+  triples: RdfTriple[],
+  path: string,
+): RdfTerm {
+  if (typeof value === "string") {
+    if (definition?.type === "@id") return { termType: "NamedNode", value: expandIri(value, context, { vocab: false }) };
+    if (definition?.type === "@vocab") return { termType: "NamedNode", value: expandIri(value, context, { vocab: true }) };
+    return { termType: "Literal", value, datatype: definition?.type ?? XSD_STRING_IRI };
+  }
+  if (typeof value === "number") {
+    const datatype = definition?.type ?? (Number.isInteger(value) ? `${XSD_NS}integer` : `${XSD_NS}double`);
+    return { termType: "Literal", value: String(value), datatype };
+  }
+  if (typeof value === "boolean") {
+    return { termType: "Literal", value: String(value), datatype: definition?.type ?? `${XSD_NS}boolean` };
+  }
+  if (!isObject(value)) throw new Error(`Unsupported JSON-LD value at ${path}.`);
+
+  if ("@list" in value || "@set" in value) {
+    throw new Error(`JSON-LD lists/sets are not supported (at ${path}).`);
+  }
+  if ("@value" in value) {
+    const literal = value["@value"];
+    if (typeof value["@language"] === "string") {
+      return { termType: "Literal", value: String(literal), datatype: RDF_LANG_STRING_IRI, language: value["@language"] };
+    }
+    const type = typeof value["@type"] === "string" ? expandIri(value["@type"], context, { vocab: true }) : null;
+    if (type) return { termType: "Literal", value: String(literal), datatype: type };
+    return valueToTerm(literal, null, context, triples, path);
+  }
+
+  const node = nodeId(value, context, path);
+  collectNodeTriples(value, context, triples, path);
+  return node;
+}
+
+/**
+ * Collect triples for one node object and its embedded nodes.
+ */
+function collectNodeTriples(node: JsonObject, parentContext: JsonLdContext, triples: RdfTriple[], path: string): void {
+  const context = applyContext(parentContext, node["@context"]);
+  if ("@graph" in node && !("@id" in node)) {
+    collectGraph(node["@graph"], context, triples, `${path}.@graph`);
+    return;
+  }
+
+  const subject = nodeId(node, context, path);
+  const rawTypes = node["@type"];
+  const types = rawTypes === undefined ? [] : Array.isArray(rawTypes) ? rawTypes : [rawTypes];
+  for (const type of types) {
+    if (typeof type !== "string") throw new Error(`Invalid @type at ${path}.`);
+    triples.push({
+      subject,
+      predicate: { termType: "NamedNode", value: RDF_TYPE_IRI },
+      object: { termType: "NamedNode", value: expandIri(type, context, { vocab: true }) },
+    });
+  }
+
+  for (const [key, rawValue] of Object.entries(node)) {
+    if (key.startsWith("@")) continue;
+    const definition = context.terms.get(key) ?? null;
+    const predicate: RdfNamedNode = { termType: "NamedNode", value: expandIri(key, context, { vocab: true }) };
+    const values = Array.isArray(rawValue) ? rawValue : [rawValue];
+    values.forEach((value, index) => {
+      if (value === null) return;
+      const valuePath = Array.isArray(rawValue) ? `${path}.${key}[${index}]` : `${path}.${key}`;
+      triples.push({ subject, predicate, object: valueToTerm(value, definition, context, triples, valuePath) });
+    });
+  }
+}
+
+function collectGraph(value: unknown, context: JsonLdContext, triples: RdfTriple[], path: string): void {
+  const nodes = Array.isArray(value) ? value : [value];
+  nodes.forEach((node, index) => {
+    if (!isObject(node)) throw new Error(`Expected JSON-LD node object at ${path}[${index}].`);
+    collectNodeTriples(node, context, triples, Array.isArray(value) ? `${path}[${index}]` : path);
+  });
+}
+
+/**
+ * Parse an inline-context JSON-LD document into RDF triples.
+ */
+export function parseJsonLdTriples(raw: string): RdfTriple[] {
+  const parsed = JSON.parse(raw) as unknown;
+  const triples: RdfTriple[] = [];
+  const context: JsonLdContext = { terms: new Map(), vocab: null, base: null };
+  collectGraph(parsed, context, triples, "$");
+  return triples;
+}
+
+/**
+ * Parse JSON-LD statements into `StatementInput[]`.
+ */
+export function parseJsonLdInputs(raw: string): StatementInput[] {
+  const trimmed = raw.trim();
+  if (!trimmed) throw new Error("Input payload is empty.");
+  return mapRdfTriplesToStatementInputs(parseJsonLdTriples(trimmed));
+}
@@ -1,9 +1,36 @@
 import { statementDoc } from "@chris-test/graph";
 import type { StatementInput } from "@chris-test/fcp";
+import { summarizeStatementDiagnostics, type StatementDiagnostic } from "../diagnostics.js";
+import { checkReferenceTypes } from "../fcp-types.js";
 
 /**
- * Parse statement-doc markdown into canonical `StatementInput[]`.
+ * Parse statement-doc markdown into canonical `StatementInput[]`, rejecting unknown entity/source types.
  */
 export function parseStatementDocInputs(raw: string): StatementInput[] {
-  return statementDoc.v0.parseStatementDocToStatementInputs(raw);
+  const inputs = statementDoc.v0.parseStatementDocToStatementInputs(raw);
+  const diagnostics: StatementDiagnostic[] = inputs.flatMap((input, index) =>
+    (["subject", "object"] as const).flatMap((role) =>
+      checkReferenceTypes(input[role].entityType, input[role].sourceType, {
+        entityType: `${role} type`,
+        sourceType: `${role} source`,
+      }).map((problem) => ({ item: index + 1, code: problem.code, message: problem.message })),
+    ),
+  );
+  if (diagnostics.length > 0) {
+    throw new Error(summarizeStatementDiagnostics(diagnostics));
+  }
+  return inputs;
+}
+
+/**
+ * Format canonical `StatementInput[]` as statement-doc markdown with fide frontmatter.
+ */
+export function formatStatementDocInputs(inputs: StatementInput[]): string {
+  const baseDoc = statementDoc.v0.formatStatementInputsAsStatementDoc(inputs, {
+    defaults: {
+      subject: { sourceType: "NetworkResource" },
+      object: { sourceType: "NetworkResource" },
+    },
+  });
+  return baseDoc.replace(/^---\n/, "---\ntype: fide-statements\nversion: v0\n");
 }
@@ -0,0 +1,295 @@
+import type { StatementInput } from "@chris-test/fcp";
+import {
+  DEFAULT_RDF_PREFIXES,
+  RDF_LANG_STRING_IRI,
+  RDF_TYPE_IRI,
+  XSD_NS,
+  XSD_STRING_IRI,
+  expandPrefixedName,
+  mapRdfTriplesToStatementInputs,
+  type RdfNamedNode,
+  type RdfTerm,
+  type RdfTriple,
+} from "./rdf.js";
+
+type TokenKind = "iri" | "pname" | "string" | "number" | "boolean" | "langtag" | "punct" | "keyword";
+
+type Token = {
+  kind: TokenKind;
+  value: string;
+  line: number;
+  column: number;
+};
+
+const PUNCTUATION = new Set([".", ";", ",", "[", "]", "(", ")"]);
+
+function unescapeRdf(text: string, line: number, column: number): string {
+  return text.replace(/\\(u[0-9A-Fa-f]{4}|U[0-9A-Fa-f]{8}|[tbnrf"'\\])|\\(.)/g, (_match, known: string | undefined, unknown: string | undefined) => {
+    if (unknown !== undefined) {
+      throw new Error(`Invalid escape sequence \\${unknown} at line ${line}, column ${column}.`);
+    }
+    const escape = known!;
+    if (escape.startsWith("u") || escape.startsWith("U")) {
+      return String.fromCodePoint(Number.parseInt(escape.slice(1), 16));
+    }
+    const map: Record<string, string> = { t: "\t", b: "\b", n: "\n", r: "\r", f: "\f", '"': '"', "'": "'", "\\": "\\" };
+    return map[escape]!;
+  });
+}
+
+/**
+ * Split Turtle/N-Triples source into tokens with 1-based line/column positions.
+ */
+function tokenize(raw: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+  let line = 1;
+  let lineStart = 0;
+
+  const advance = (count: number) => {
+    for (let i = 0; i < count; i += 1) {
+      if (raw[index] === "\n") {
+        line += 1;
+        lineStart = index + 1;
+      }
+      index += 1;
+    }
+  };
+
+  while (index < raw.length) {
+    const char = raw[index]!;
+    const column = index - lineStart + 1;
+    const startLine = line;
+
+    if (/\s/.test(char)) {
+      advance(1);
+      continue;
+    }
+    if (char === "#") {
+      while (index < raw.length && raw[index] !== "\n") advance(1);
+      continue;
+    }
+    if (char === "<") {
+      if (raw[index + 1] === "<") {
+        throw new Error(`RDF-star quoted triples are not supported (line ${startLine}, column ${column}).`);
+      }
+      const end = raw.indexOf(">", index + 1);
+      if (end < 0) throw new Error(`Unterminated IRI at line ${startLine}, column ${column}.`);
+      const value = unescapeRdf(raw.slice(index + 1, end), startLine, column);
+      tokens.push({ kind: "iri", value, line: startLine, column });
+      advance(end + 1 - index);
+      continue;
+    }
+    if (char === '"' || char === "'") {
+      const long = raw.startsWith(char.repeat(3), index);
+      const quote = long ? char.repeat(3) : char;
+      let cursor = index + quote.length;
+      let body = "";
+      for (;;) {
+        if (cursor >= raw.length) throw new Error(`Unterminated string literal at line ${startLine}, column ${column}.`);
+        if (raw[cursor] === "\\") {
+          body += raw.slice(cursor, cursor + 2);
+          cursor += 2;
+          continue;
+        }
+        if (raw.startsWith(quote, cursor)) break;
+        if (!long && raw[cursor] === "\n") {
+          throw new Error(`Unterminated string literal at line ${startLine}, column ${column}.`);
+        }
+        body += raw[cursor];
+        cursor += 1;
+      }
+      tokens.push({ kind: "string", value: unescapeRdf(body, startLine, column), line: startLine, column });
+      advance(cursor + quote.length - index);
+      continue;
+    }
+    if (char === "^" && raw[index + 1] === "^") {
+      tokens.push({ kind: "punct", value: "^^", line: startLine, column });
+      advance(2);
+      continue;
+    }
+    if (char === "@") {
+      const match = raw.slice(index).match(/^@([A-Za-z]+(?:-[A-Za-z0-9]+)*)/);
+      if (!match) throw new Error(`Unexpected "@" at line ${startLine}, column ${column}.`);
+      const word = match[1]!;
+      const kind: TokenKind = word === "prefix" || word === "base" ? "keyword" : "langtag";
+      tokens.push({ kind, value: kind === "keyword" ? `@${word}` : word, line: startLine, column });
+      advance(match[0].length);
+      continue;
+    }
+    const number = raw.slice(index).match(/^[+-]?(?:\d*\.\d+|\d+)(?:[eE][+-]?\d+)?/);
+    if (number) {
+      tokens.push({ kind: "number", value: number[0], line: startLine, column });
+      advance(number[0].length);
+      continue;
+    }
+    if (PUNCTUATION.has(char)) {
+      tokens.push({ kind: "punct", value: char, line: startLine, column });
+      advance(1);
+      continue;
+    }
+    const word = raw.slice(index).match(/^(?:_:)?[A-Za-z0-9_\-À-￿]*:?(?:[A-Za-z0-9_\-.%À-￿]*[A-Za-z0-9_\-%À-￿])?/);
+    const text = word?.[0] ?? "";
+    if (!text) throw new Error(`Unexpected character "${char}" at line ${startLine}, column ${column}.`);
+    if (text.startsWith("_:")) {
+      throw new Error(`Blank nodes are not supported; use IRIs (line ${startLine}, column ${column}).`);
+    }
+    if (text === "true" || text === "false") {
+      tokens.push({ kind: "boolean", value: text, line: startLine, column });
+    } else if (text === "a" || /^(PREFIX|BASE)$/i.test(text)) {
+      tokens.push({ kind: "keyword", value: text === "a" ? "a" : `@${text.toLowerCase()}`, line: startLine, column });
+    } else if (text.includes(":")) {
+      tokens.push({ kind: "pname", value: text, line: startLine, column });
+    } else {
+      throw new Error(`Unexpected token "${text}" at line ${startLine}, column ${column}.`);
+    }
+    advance(text.length);
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse Turtle (or the N-Triples subset) into RDF triples.
+ */
+export function parseTurtleTriples(raw: string, options?: { ntriples?: boolean }): RdfTriple[] {
+  const ntriples = options?.ntriples ?? false;
+  const formatName = ntriples ? "N-Triples" : "Turtle";
+  const tokens = tokenize(raw);
+  const prefixes: Record<string, string> = { ...DEFAULT_RDF_PREFIXES };
+  let base: string | null = null;
+  const triples: RdfTriple[] = [];
+  let position = 0;
+
+  const where = (token: Token | undefined) =>
+    token ? `line ${token.line}, column ${token.column}` : "end of input";
+  const fail = (message: string, token: Token | undefined): never => {
+    throw new Error(`${formatName} parse error at ${where(token)}: ${message}`);
+  };
+  const peek = () => tokens[position];
+  const next = () => {
+    const token = tokens[position];
+    if (!token) fail("unexpected end of input", token);
+    position += 1;
+    return token!;
+  };
+  const expectPunct = (value: string) => {
+    const token = next();
+    if (token.kind !== "punct" || token.value !== value) fail(`expected "${value}" but found "${token.value}"`, token);
+  };
+
+  const resolveIri = (value: string, token: Token): string => {
+    if (/^[A-Za-z][A-Za-z0-9+.-]*:/.test(value)) return value;
+    if (ntriples) fail(`relative IRI <${value}> is not allowed`, token);
+    if (!base) fail(`relative IRI <${value}> requires @base`, token);
+    return new URL(value, base!).toString();
+  };
+
+  const readIri = (token: Token): RdfNamedNode => {
+    if (token.kind === "iri") return { termType: "NamedNode", value: resolveIri(token.value, token) };
+    if (token.kind === "pname" && !ntriples) {
+      const expanded = expandPrefixedName(token.value, prefixes);
+      if (!expanded) fail(`unknown prefix in "${token.value}"`, token);
+      return { termType: "NamedNode", value: expanded! };
+    }
+    if (token.kind === "punct" && (token.value === "[" || token.value === "(")) {
+      fail("blank nodes and collections are not supported; use IRIs", token);
+    }
+    return fail(`expected IRI but found "${token.value}"`, token);
+  };
+
+  const readObject = (): RdfTerm => {
+    const token = next();
+    if (token.kind === "string") {
+      const suffix = peek();
+      if (suffix?.kind === "langtag") {
+        position += 1;
+        return { termType: "Literal", value: token.value, datatype: RDF_LANG_STRING_IRI, language: suffix.value };
+      }
+      if (suffix?.kind === "punct" && suffix.value === "^^") {
+        position += 1;
+        return { termType: "Literal", value: token.value, datatype: readIri(next()).value };
+      }
+      return { termType: "Literal", value: token.value, datatype: XSD_STRING_IRI };
+    }
+    if (token.kind === "number" && !ntriples) {
+      const datatype = /[eE]/.test(token.value) ? "double" : token.value.includes(".") ? "decimal" : "integer";
+      return { termType: "Literal", value: token.value, datatype: `${XSD_NS}${datatype}` };
+    }
+    if (token.kind === "boolean" && !ntriples) {
+      return { termType: "Literal", value: token.value, datatype: `${XSD_NS}boolean` };
+    }
+    return readIri(token);
+  };
+
+  const readPredicate = (): RdfNamedNode => {
+    const token = next();
+    if (token.kind === "keyword" && token.value === "a" && !ntriples) {
+      return { termType: "NamedNode", value: RDF_TYPE_IRI };
+    }
+    return readIri(token);
+  };
+
+  while (position < tokens.length) {
+    const token = next();
+
+    if (token.kind === "keyword" && (token.value === "@prefix" || token.value === "@base")) {
+      if (ntriples) fail(`${token.value} directives are not allowed`, token);
+      if (token.value === "@prefix") {
+        const name = next();
+        if (name.kind !== "pname" || !name.value.endsWith(":")) fail("expected prefix name ending with \":\"", name);
+        const iri = next();
+        if (iri.kind !== "iri") fail("expected namespace IRI", iri);
+        prefixes[name.value.slice(0, -1)] = resolveIri(iri.value, iri);
+      } else {
+        const iri = next();
+        if (iri.kind !== "iri") fail("expected base IRI", iri);
+        base = resolveIri(iri.value, iri);
+      }
+      const terminator = peek();
+      if (terminator?.kind === "punct" && terminator.value === ".") position += 1;
+      continue;
+    }
+
+    const subject = readIri(token);
+    for (;;) {
+      const predicate = readPredicate();
+      for (;;) {
+        triples.push({ subject, predicate, object: readObject() });
+        const separator = peek();
+        if (separator?.kind === "punct" && separator.value === "," && !ntriples) {
+          position += 1;
+          continue;
+        }
+        break;
+      }
+      const separator = peek();
+      if (separator?.kind === "punct" && separator.value === ";" && !ntriples) {
+        position += 1;
+        const after = peek();
+        if (after?.kind === "punct" && after.value === ".") break;
+        continue;
+      }
+      break;
+    }
+    expectPunct(".");
+  }
+
+  return triples;
+}
+
+/**
+ * Parse Turtle statements into `StatementInput[]`.
+ */
+export function parseTurtleInputs(raw: string): StatementInput[] {
+  if (!raw.trim()) throw new Error("Input payload is empty.");
+  return mapRdfTriplesToStatementInputs(parseTurtleTriples(raw));
+}
+
+/**
+ * Parse N-Triples statements into `StatementInput[]`.
+ */
+export function parseNTriplesInputs(raw: string): StatementInput[] {
+  if (!raw.trim()) throw new Error("Input payload is empty.");
+  return mapRdfTriplesToStatementInputs(parseTurtleTriples(raw, { ntriples: true }));
+}
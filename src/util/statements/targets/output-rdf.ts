@@ -0,0 +1,162 @@
+import { parseFideId } from "@chris-test/fcp";
+import type { StoredStatement } from "../store.js";
+import { DATATYPE_BY_LITERAL_TYPE, DEFAULT_RDF_PREFIXES, XSD_STRING_IRI } from "./rdf.js";
+
+export const RDF_EXPORT_FORMATS = ["nt", "nq", "ttl", "jsonld"] as const;
+export type RdfExportFormat = (typeof RDF_EXPORT_FORMATS)[number];
+
+type ExportTerm =
+  | { kind: "node"; iri: string }
+  | { kind: "literal"; value: string; datatype: string }
+  | { kind: "quoted"; statement: StoredStatement };
+
+/**
+ * Nesting limit for RDF-star quoted triples (statements about statements about ...).
+ */
+const MAX_QUOTE_DEPTH = 8;
+
+function entityTypeOf(fideId: string): string {
+  try {
+    return parseFideId(fideId as `did:fide:0x${string}`).entityType;
+  } catch {
+    return "Unknown";
+  }
+}
+
+function escapeLiteral(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n")
+    .replace(/\r/g, "\\r");
+}
+
+/**
+ * Resolve one subject/object position into an export term.
+ * Statement-typed references become quoted triples when the referenced statement is known.
+ */
+function toTerm(
+  fideId: string,
+  rawIdentifier: string,
+  statementsById: Map<string, StoredStatement>,
+  options: { star: boolean; depth: number },
+): ExportTerm {
+  const entityType = entityTypeOf(fideId);
+  const datatype = DATATYPE_BY_LITERAL_TYPE[entityType];
+  if (datatype) return { kind: "literal", value: rawIdentifier, datatype };
+  if (entityType === "Statement" && options.star && options.depth < MAX_QUOTE_DEPTH) {
+    const quoted = statementsById.get(fideId);
+    if (quoted) return { kind: "quoted", statement: quoted };
+  }
+  return { kind: "node", iri: fideId };
+}
+
+function compactIri(iri: string, prefixes: Record<string, string>): string | null {
+  for (const [prefix, namespace] of Object.entries(prefixes)) {
+    if (!iri.startsWith(namespace)) continue;
+    const local = iri.slice(namespace.length);
+    if (/^[A-Za-z_][A-Za-z0-9_-]*$/.test(local)) return `${prefix}:${local}`;
+  }
+  return null;
+}
+
+function renderTerm(
+  term: ExportTerm,
+  statementsById: Map<string, StoredStatement>,
+  options: { star: boolean; depth: number; prefixes: Record<string, string> | null },
+): string {
+  if (term.kind === "literal") {
+    const literal = `"${escapeLiteral(term.value)}"`;
+    if (term.datatype === XSD_STRING_IRI) return literal;
+    const compact = options.prefixes ? compactIri(term.datatype, options.prefixes) : null;
+    return `${literal}^^${compact ?? `<${term.datatype}>`}`;
+  }
+  if (term.kind === "quoted") {
+    return `<< ${renderTriple(term.statement, statementsById, { ...options, depth: options.depth + 1 })} >>`;
+  }
+  return `<${term.iri}>`;
+}
+
+function renderTriple(
+  statement: StoredStatement,
+  statementsById: Map<string, StoredStatement>,
+  options: { star: boolean; depth: number; prefixes: Record<string, string> | null },
+): string {
+  const subject = toTerm(statement.subjectFideId, statement.subjectRawIdentifier, statementsById, options);
+  const object = toTerm(statement.objectFideId, statement.objectRawIdentifier, statementsById, options);
+  const predicate = (options.prefixes ? compactIri(statement.predicateRawIdentifier, options.prefixes) : null) ??
+    `<${statement.predicateRawIdentifier}>`;
+  return [
+    renderTerm(subject, statementsById, options),
+    predicate,
+    renderTerm(object, statementsById, options),
+  ].join(" ");
+}
+
+function toJsonLdValue(term: ExportTerm): Record<string, string> {
+  if (term.kind === "literal") {
+    return term.datatype === XSD_STRING_IRI ? { "@value": term.value } : { "@value": term.value, "@type": term.datatype };
+  }
+  if (term.kind === "quoted") return { "@id": term.statement.statementFideId };
+  return { "@id": term.iri };
+}
+
+/**
+ * Serialize statements as JSON-LD with one named graph per statement fide id.
+ */
+function formatJsonLd(statements: StoredStatement[], statementsById: Map<string, StoredStatement>): string {
+  const options = { star: false, depth: 0 };
+  const graph = statements.map((statement) => {
+    const subject = toTerm(statement.subjectFideId, statement.subjectRawIdentifier, statementsById, options);
+    const object = toTerm(statement.objectFideId, statement.objectRawIdentifier, statementsById, options);
+    return {
+      "@id": statement.statementFideId,
+      "@graph": [
+        {
+          "@id": subject.kind === "node" ? subject.iri : statement.subjectFideId,
+          [statement.predicateRawIdentifier]: [toJsonLdValue(object)],
+        },
+      ],
+    };
+  });
+  return `${JSON.stringify({ "@context": { ...DEFAULT_RDF_PREFIXES }, "@graph": graph }, null, 2)}\n`;
+}
+
+/**
+ * Serialize wire statements as RDF.
+ * Nodes use fide DIDs as IRIs, predicates use their full raw IRIs, and literals carry
+ * the XSD datatype matching their fcp literal type. Statements about statements are
+ * emitted as RDF-star quoted triples (`nt`, `ttl`) or named graphs keyed by statement
+ * fide id (`nq`, `jsonld`).
+ */
+export function formatStatementsAsRdf(
+  statements: StoredStatement[],
+  format: RdfExportFormat,
+  options?: { star?: boolean },
+): string {
+  const statementsById = new Map(statements.map((statement) => [statement.statementFideId, statement]));
+  const star = options?.star ?? true;
+
+  if (format === "jsonld") return formatJsonLd(statements, statementsById);
+
+  if (format === "nq") {
+    const lines = statements.map(
+      (statement) =>
+        `${renderTriple(statement, statementsById, { star: false, depth: 0, prefixes: null })} <${statement.statementFideId}> .`,
+    );
+    return lines.length > 0 ? `${lines.join("\n")}\n` : "";
+  }
+
+  if (format === "ttl") {
+    const header = Object.entries(DEFAULT_RDF_PREFIXES).map(([prefix, namespace]) => `@prefix ${prefix}: <${namespace}> .`);
+    const lines = statements.map(
+      (statement) => `${renderTriple(statement, statementsById, { star, depth: 0, prefixes: DEFAULT_RDF_PREFIXES })} .`,
+    );
+    return `${[...header, "", ...lines].join("\n")}\n`;
+  }
+
+  const lines = statements.map(
+    (statement) => `${renderTriple(statement, statementsById, { star, depth: 0, prefixes: null })} .`,
+  );
+  return lines.length > 0 ? `${lines.join("\n")}\n` : "";
+}
@@ -1,16 +1,48 @@
 import type { StatementInput } from "@chris-test/fcp";
+import { loadWorkspacePrefixes } from "../prefixes.js";
 import type { StatementsInputFormat } from "../shared.js";
+import { parseDelimitedInputs, readCsvColumnMappingFlags, type CsvColumnMapping } from "./input-csv.js";
 import { parseJsonInputs, mapSingleStatementInput } from "./input-json.js";
+import { parseJsonLdInputs } from "./input-jsonld.js";
 import { parseJsonlInputs } from "./input-jsonl.js";
 import { parseStatementDocInputs } from "./input-statement-doc.js";
+import { parseNTriplesInputs, parseTurtleInputs } from "./input-turtle.js";
 
 export { mapSingleStatementInput };
+export { readCsvColumnMappingFlags };
+
+/**
+ * Format-specific parse options.
+ * `prefixes` expands CURIEs in json/jsonl/csv/tsv inputs (built-in prefixes when omitted).
+ */
+export type StatementsParseOptions = {
+  columnMapping?: CsvColumnMapping | null;
+  prefixes?: Record<string, string>;
+};
+
+/**
+ * Resolve parse options from command flags plus workspace prefixes.
+ */
+export async function readStatementsParseOptions(flags: Map<string, string | boolean>): Promise<StatementsParseOptions> {
+  return {
+    columnMapping: await readCsvColumnMappingFlags(flags),
+    prefixes: await loadWorkspacePrefixes(),
+  };
+}
 
 /**
  * Parse raw input into `StatementInput[]` using the resolved format.
  */
-export function parseStatementInputsByFormat(raw: string, format: StatementsInputFormat): StatementInput[] {
-  if (format === "json") return parseJsonInputs(raw);
-  if (format === "jsonl") return parseJsonlInputs(raw);
+export function parseStatementInputsByFormat(
+  raw: string,
+  format: StatementsInputFormat,
+  options?: StatementsParseOptions,
+): StatementInput[] {
+  if (format === "json") return parseJsonInputs(raw, options?.prefixes);
+  if (format === "jsonl") return parseJsonlInputs(raw, options?.prefixes);
+  if (format === "nt") return parseNTriplesInputs(raw);
+  if (format === "ttl") return parseTurtleInputs(raw);
+  if (format === "jsonld") return parseJsonLdInputs(raw);
+  if (format === "csv" || format === "tsv") return parseDelimitedInputs(raw, format, options?.columnMapping, options?.prefixes);
   return parseStatementDocInputs(raw);
 }
@@ -0,0 +1,184 @@
+import type { StatementInput } from "@chris-test/fcp";
+
+type EntityType = StatementInput["subject"]["entityType"];
+type SourceType = StatementInput["subject"]["sourceType"];
+
+export type RdfNamedNode = { termType: "NamedNode"; value: string };
+export type RdfLiteral = { termType: "Literal"; value: string; datatype: string; language?: string };
+export type RdfTerm = RdfNamedNode | RdfLiteral;
+export type RdfTriple = { subject: RdfNamedNode; predicate: RdfNamedNode; object: RdfTerm };
+
+export const XSD_NS = "http://www.w3.org/2001/XMLSchema#";
+export const RDF_NS = "http://www.w3.org/1999/02/22-rdf-syntax-ns#";
+export const RDF_TYPE_IRI = `${RDF_NS}type`;
+export const RDF_LANG_STRING_IRI = `${RDF_NS}langString`;
+export const XSD_STRING_IRI = `${XSD_NS}string`;
+
+/**
+ * Prefixes every RDF reader and writer knows without a declaration.
+ */
+export const DEFAULT_RDF_PREFIXES: Record<string, string> = {
+  rdf: RDF_NS,
+  rdfs: "http://www.w3.org/2000/01/rdf-schema#",
+  xsd: XSD_NS,
+  owl: "https://www.w3.org/2002/07/owl#",
+  schema: "https://schema.org/",
+  prov: "https://www.w3.org/ns/prov#",
+  skos: "http://www.w3.org/2004/02/skos/core#",
+};
+
+/**
+ * Standard namespaces as most Turtle/JSON-LD documents declare them, keyed to the canonical
+ * namespaces above so imported predicates match the vocabulary and eval IRIs.
+ */
+const CANONICAL_NAMESPACE_BY_ALIAS: Record<string, string> = {
+  "http://www.w3.org/2002/07/owl#": DEFAULT_RDF_PREFIXES.owl,
+  "http://schema.org/": DEFAULT_RDF_PREFIXES.schema,
+  "http://www.w3.org/ns/prov#": DEFAULT_RDF_PREFIXES.prov,
+};
+
+/**
+ * Literal fcp entity types keyed by XSD/RDF datatype IRI.
+ * Literal statements use the same value for entity and source type.
+ */
+export const LITERAL_TYPE_BY_DATATYPE: Record<string, EntityType> = {
+  [XSD_STRING_IRI]: "TextLiteral",
+  [RDF_LANG_STRING_IRI]: "TextLiteral",
+  [`${XSD_NS}normalizedString`]: "TextLiteral",
+  [`${XSD_NS}token`]: "TextLiteral",
+  [`${XSD_NS}integer`]: "IntegerLiteral",
+  [`${XSD_NS}int`]: "IntegerLiteral",
+  [`${XSD_NS}long`]: "IntegerLiteral",
+  [`${XSD_NS}short`]: "IntegerLiteral",
+  [`${XSD_NS}nonNegativeInteger`]: "IntegerLiteral",
+  [`${XSD_NS}positiveInteger`]: "IntegerLiteral",
+  [`${XSD_NS}decimal`]: "DecimalLiteral",
+  [`${XSD_NS}double`]: "DecimalLiteral",
+  [`${XSD_NS}float`]: "DecimalLiteral",
+  [`${XSD_NS}boolean`]: "BoolLiteral",
+  [`${XSD_NS}date`]: "DateLiteral",
+  [`${XSD_NS}time`]: "TimeLiteral",
+  [`${XSD_NS}dateTime`]: "DateTimeLiteral",
+  [`${XSD_NS}duration`]: "DurationLiteral",
+  [`${XSD_NS}anyURI`]: "URILiteral",
+  [`${RDF_NS}JSON`]: "JSONLiteral",
+};
+
+/**
+ * Datatype IRI written for each fcp literal entity type on RDF export.
+ */
+export const DATATYPE_BY_LITERAL_TYPE: Record<string, string> = {
+  TextLiteral: XSD_STRING_IRI,
+  IntegerLiteral: `${XSD_NS}integer`,
+  DecimalLiteral: `${XSD_NS}decimal`,
+  BoolLiteral: `${XSD_NS}boolean`,
+  DateLiteral: `${XSD_NS}date`,
+  TimeLiteral: `${XSD_NS}time`,
+  DateTimeLiteral: `${XSD_NS}dateTime`,
+  DurationLiteral: `${XSD_NS}duration`,
+  URILiteral: `${XSD_NS}anyURI`,
+  JSONLiteral: `${RDF_NS}JSON`,
+};
+
+/**
+ * Non-literal fcp entity types inferred from `rdf:type` class IRIs (http and https variants).
+ */
+const ENTITY_TYPE_BY_CLASS: Record<string, EntityType> = {
+  "schema.org/Person": "Person",
+  "schema.org/Organization": "Organization",
+  "www.w3.org/2004/02/skos/core#Concept": "Concept",
+};
+
+const DEFAULT_NODE_ENTITY_TYPE: EntityType = "Concept";
+const NODE_SOURCE_TYPE: SourceType = "NetworkResource";
+
+/**
+ * Expand a `prefix:local` name against a prefix map, or return null when the prefix is unknown.
+ */
+export function expandPrefixedName(name: string, prefixes: Record<string, string>): string | null {
+  const colon = name.indexOf(":");
+  if (colon < 0) return null;
+  const namespace = prefixes[name.slice(0, colon)];
+  if (namespace === undefined) return null;
+  return `${namespace}${name.slice(colon + 1)}`;
+}
+
+/**
+ * Rewrite an IRI in a standard `http://` owl/schema/prov namespace to its canonical namespace.
+ */
+export function canonicalizeRdfIri(iri: string): string {
+  for (const [alias, canonical] of Object.entries(CANONICAL_NAMESPACE_BY_ALIAS)) {
+    if (iri.startsWith(alias)) return `${canonical}${iri.slice(alias.length)}`;
+  }
+  return iri;
+}
+
+function canonicalNode(node: RdfNamedNode): RdfNamedNode {
+  return { termType: "NamedNode", value: canonicalizeRdfIri(node.value) };
+}
+
+function entityTypeForClass(classIri: string): EntityType | null {
+  const key = classIri.replace(/^https?:\/\//, "");
+  return ENTITY_TYPE_BY_CLASS[key] ?? null;
+}
+
+function literalEntityType(literal: RdfLiteral): EntityType {
+  const mapped = LITERAL_TYPE_BY_DATATYPE[literal.datatype];
+  if (!mapped) {
+    throw new Error(`Unsupported literal datatype: <${literal.datatype}>.`);
+  }
+  return mapped;
+}
+
+/**
+ * Map parsed RDF triples into canonical `StatementInput[]`.
+ * IRI nodes take their entity type from a recognized `rdf:type` class (default Concept);
+ * literals map their datatype onto the matching fcp literal type. Standard `http://` owl,
+ * schema and prov IRIs are rewritten to their canonical namespaces.
+ */
+export function mapRdfTriplesToStatementInputs(rdfTriples: RdfTriple[]): StatementInput[] {
+  if (rdfTriples.length === 0) {
+    throw new Error("Input payload contains no RDF triples.");
+  }
+  const triples = rdfTriples.map((triple): RdfTriple => ({
+    subject: canonicalNode(triple.subject),
+    predicate: canonicalNode(triple.predicate),
+    object: triple.object.termType === "NamedNode" ? canonicalNode(triple.object) : triple.object,
+  }));
+
+  const entityTypeByIri = new Map<string, EntityType>();
+  for (const triple of triples) {
+    if (triple.predicate.value !== RDF_TYPE_IRI || triple.object.termType !== "NamedNode") continue;
+    if (entityTypeByIri.has(triple.subject.value)) continue;
+    const mapped = entityTypeForClass(triple.object.value);
+    if (mapped) entityTypeByIri.set(triple.subject.value, mapped);
+  }
+
+  const nodeRef = (iri: string): StatementInput["subject"] => ({
+    rawIdentifier: iri,
+    entityType: entityTypeByIri.get(iri) ?? DEFAULT_NODE_ENTITY_TYPE,
+    sourceType: NODE_SOURCE_TYPE,
+  });
+
+  return triples.map((triple) => {
+    const object: StatementInput["object"] = triple.object.termType === "NamedNode"
+      ? nodeRef(triple.object.value)
+      : (() => {
+        const literalType = literalEntityType(triple.object);
+        return {
+          rawIdentifier: triple.object.value,
+          entityType: literalType,
+          sourceType: literalType as SourceType,
+        };
+      })();
+    return {
+      subject: nodeRef(triple.subject.value),
+      predicate: {
+        rawIdentifier: triple.predicate.value,
+        entityType: "Concept",
+        sourceType: "NetworkResource",
+      },
+      object,
+    };
+  });
+}
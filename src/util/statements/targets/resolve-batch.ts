@@ -1,26 +1,31 @@
 import { buildStatementsWithRoot, parseGraphStatementBatchJsonl } from "@chris-test/graph";
-import { detectStatementsInputFormat, type StatementsInputFormat } from "../shared.js";
-import { parseStatementInputsByFormat } from "./parse-inputs.js";
+import { detectStatementsInputFormat, isGraphStatementWireJsonl, type StatementsInputFormat } from "../shared.js";
+import { toStoredStatement, type StoredStatement } from "../store.js";
+import { parseStatementInputsByFormat, type StatementsParseOptions } from "./parse-inputs.js";
 
 /**
- * Resolve statement batch root/count from raw input payload.
- * Accepts either statement inputs (`json`, `jsonl`, `fsd`) or graph JSONL wire batches.
+ * Resolve statement batch root/count/statements from raw input payload.
+ * Accepts either statement inputs (`json`, `jsonl`, `fsd`, `nt`, `ttl`, `jsonld`, `csv`, `tsv`) or graph JSONL wire batches.
  */
 export async function resolveBatchFromInput(
   raw: string,
-  options?: { format?: StatementsInputFormat | null; normalizeRawIdentifier?: boolean },
-): Promise<{ root: string; statementCount: number; format: StatementsInputFormat }> {
+  options?: { format?: StatementsInputFormat | null; normalizeRawIdentifier?: boolean } & StatementsParseOptions,
+): Promise<{ root: string; statementCount: number; format: StatementsInputFormat; statements: StoredStatement[] }> {
   const format = options?.format ?? detectStatementsInputFormat(raw);
 
-  if (format === "jsonl") {
+  if (format === "jsonl" && isGraphStatementWireJsonl(raw)) {
     const parsed = await parseGraphStatementBatchJsonl(raw);
-    return { root: parsed.root, statementCount: parsed.statementWires.length, format };
+    const statements = parsed.statements.map((statement, index) =>
+      toStoredStatement(statement, parsed.statementFideIds[index]!),
+    );
+    return { root: parsed.root, statementCount: parsed.statementWires.length, format, statements };
   }
 
-  const statementInputs = parseStatementInputsByFormat(raw, format);
+  const statementInputs = parseStatementInputsByFormat(raw, format, options);
   const batch = await buildStatementsWithRoot(statementInputs, {
     normalizeRawIdentifier: options?.normalizeRawIdentifier ?? true,
   });
+  const statements = batch.statements.map((statement) => toStoredStatement(statement, statement.statementFideId));
 
-  return { root: batch.root, statementCount: batch.statements.length, format };
+  return { root: batch.root, statementCount: batch.statements.length, format, statements };
 }
@@ -0,0 +1,75 @@
+import { formatGraphStatementBatchJsonl, parseGraphStatementBatchJsonl } from "@chris-test/graph";
+import type { StatementInput } from "@chris-test/fcp";
+import { diagnosticFromJsonError, type StatementDiagnostic } from "../diagnostics.js";
+import { mapBatchStatementsToStatementInputs } from "./batch-inputs.js";
+
+const WIRE_FIELDS = ["s", "sr", "p", "pr", "o", "or"] as const;
+
+/**
+ * Built statement shape required to emit graph JSONL wire rows.
+ */
+export type WireSourceStatement = {
+  subjectFideId: string;
+  subjectRawIdentifier: string;
+  predicateFideId: string;
+  predicateRawIdentifier: string;
+  objectFideId: string;
+  objectRawIdentifier: string;
+};
+
+/**
+ * Format built statements as a graph JSONL wire batch.
+ */
+export function formatStatementsAsWireJsonl(statements: WireSourceStatement[]): string {
+  const wires = statements.map((statement) => ({
+    s: statement.subjectFideId,
+    sr: statement.subjectRawIdentifier,
+    p: statement.predicateFideId,
+    pr: statement.predicateRawIdentifier,
+    o: statement.objectFideId,
+    or: statement.objectRawIdentifier,
+  }));
+  return formatGraphStatementBatchJsonl(wires as Parameters<typeof formatGraphStatementBatchJsonl>[0]);
+}
+
+/**
+ * Parse a graph JSONL wire batch back into editable `StatementInput[]`.
+ */
+export async function parseWireInputs(raw: string): Promise<{ root: string; inputs: StatementInput[] }> {
+  const parsed = await parseGraphStatementBatchJsonl(raw);
+  return { root: parsed.root, inputs: mapBatchStatementsToStatementInputs(parsed.statements) };
+}
+
+/**
+ * Collect per-line problems in a graph JSONL wire batch: syntax errors, missing keys and repeated rows.
+ * Fide id/raw identifier consistency is checked by the batch parser itself.
+ */
+export function collectWireDiagnostics(raw: string): StatementDiagnostic[] {
+  const diagnostics: StatementDiagnostic[] = [];
+  const firstByTriple = new Map<string, number>();
+  let item = 0;
+  raw.split("\n").forEach((text, index) => {
+    const trimmed = text.trim();
+    if (trimmed.length === 0 || trimmed.startsWith("#")) return;
+    const line = index + 1;
+    item += 1;
+    let row: Record<string, unknown>;
+    try {
+      row = JSON.parse(text) as Record<string, unknown>;
+    } catch (error) {
+      diagnostics.push({ ...diagnosticFromJsonError(error, text, { line }), item });
+      return;
+    }
+    const column = text.length - text.trimStart().length + 1;
+    const missing = WIRE_FIELDS.filter((field) => typeof row[field] !== "string" || !row[field]);
+    for (const field of missing) {
+      diagnostics.push({ code: "missing-field", message: `Missing required wire field "${field}".`, item, line, column, field });
+    }
+    if (missing.length > 0) return;
+    const triple = `${row.s}|${row.p}|${row.o}`;
+    const first = firstByTriple.get(triple);
+    if (first === undefined) firstByTriple.set(triple, line);
+    else diagnostics.push({ code: "duplicate-statement", message: `Duplicate of line ${first}.`, item, line, column });
+  });
+  return diagnostics;
+}
@@ -0,0 +1,227 @@
+import { existsSync } from "node:fs";
+import { readdir } from "node:fs/promises";
+import { basename, resolve } from "node:path";
+import { readUtf8 } from "../io.js";
+import { resolveWorkspacePath } from "../workspace.js";
+import type { StatementDiagnostic } from "./diagnostics.js";
+import { readTypeList } from "./fcp-types.js";
+import { expandCurie, loadWorkspacePrefixes } from "./prefixes.js";
+import { parseFideIdTypes } from "./render.js";
+import type { StoredStatement } from "./store.js";
+
+/**
+ * Predicate IRIs the CLI itself relies on (eval prompts, eval decisions, examples).
+ */
+export const VOCAB_IRIS = {
+  owlSameAs: "https://www.w3.org/2002/07/owl#sameAs",
+  owlDifferentFrom: "https://www.w3.org/2002/07/owl#differentFrom",
+  schemaName: "https://schema.org/name",
+  schemaValidFrom: "https://schema.org/validFrom",
+  schemaValidThrough: "https://schema.org/validThrough",
+  schemaWorksFor: "https://schema.org/worksFor",
+  schemaMemberOf: "https://schema.org/memberOf",
+  schemaAffiliation: "https://schema.org/affiliation",
+  provHadPrimarySource: "https://www.w3.org/ns/prov#hadPrimarySource",
+  evalDecision: "https://example.org/evaluation/decision",
+  evalConfidence: "https://example.org/evaluation/confidence",
+  evalReason: "https://example.org/evaluation/reason",
+} as const;
+
+/**
+ * One vocabulary term: a predicate IRI with its definition and expected subject/object entity types.
+ */
+export type VocabTerm = {
+  iri: string;
+  label: string;
+  kind: "predicate";
+  definition: string;
+  subjectType: string[] | null;
+  objectType: string[] | null;
+  source: string;
+};
+
+type RawVocabTerm = {
+  iri?: unknown;
+  label?: unknown;
+  definition?: unknown;
+  subjectType?: unknown;
+  objectType?: unknown;
+};
+
+function builtIn(
+  iri: string,
+  label: string,
+  definition: string,
+  types: { subjectType?: string[]; objectType?: string[] } = {},
+): VocabTerm {
+  return {
+    iri,
+    label,
+    kind: "predicate",
+    definition,
+    subjectType: types.subjectType ?? null,
+    objectType: types.objectType ?? null,
+    source: "built-in",
+  };
+}
+
+/**
+ * Terms shipped with the CLI. Project terms in `.fide/vocab/` extend or override these by IRI.
+ */
+export const BUILT_IN_VOCAB: VocabTerm[] = [
+  builtIn(VOCAB_IRIS.owlSameAs, "owl:sameAs", "Indicates two identifiers refer to the same entity."),
+  builtIn(VOCAB_IRIS.owlDifferentFrom, "owl:differentFrom", "Indicates two identifiers refer to different entities."),
+  builtIn(VOCAB_IRIS.schemaName, "schema:name", "The name of an item.", { objectType: ["TextLiteral"] }),
+  builtIn(VOCAB_IRIS.schemaValidFrom, "schema:validFrom", "The date/time from which a statement is valid.", {
+    subjectType: ["Statement"],
+    objectType: ["DateTimeLiteral", "DateLiteral"],
+  }),
+  builtIn(VOCAB_IRIS.schemaValidThrough, "schema:validThrough", "The date/time through which a statement is valid.", {
+    subjectType: ["Statement"],
+    objectType: ["DateTimeLiteral", "DateLiteral"],
+  }),
+  builtIn(VOCAB_IRIS.schemaWorksFor, "schema:worksFor", "Organization that a person works for.", {
+    subjectType: ["Person"],
+    objectType: ["Organization"],
+  }),
+  builtIn(VOCAB_IRIS.schemaMemberOf, "schema:memberOf", "Indicates membership in an organization.", {
+    subjectType: ["Person", "Organization"],
+    objectType: ["Organization"],
+  }),
+  builtIn(VOCAB_IRIS.schemaAffiliation, "schema:affiliation", "Indicates affiliation with an organization.", {
+    subjectType: ["Person"],
+    objectType: ["Organization"],
+  }),
+  builtIn(VOCAB_IRIS.provHadPrimarySource, "prov:hadPrimarySource", "Links a statement to primary-source evidence.", {
+    subjectType: ["Statement"],
+  }),
+  builtIn(VOCAB_IRIS.evalDecision, "eval:decision", "Evaluator decision on a statement: supports, contradicts or insufficient.", {
+    subjectType: ["Statement"],
+    objectType: ["TextLiteral"],
+  }),
+  builtIn(VOCAB_IRIS.evalConfidence, "eval:confidence", "Evaluator confidence in a decision, from 0 to 1.", {
+    subjectType: ["Statement"],
+    objectType: ["DecimalLiteral"],
+  }),
+  builtIn(VOCAB_IRIS.evalReason, "eval:reason", "Evaluator's short justification for a decision.", {
+    subjectType: ["Statement"],
+    objectType: ["TextLiteral"],
+  }),
+];
+
+/**
+ * Resolve the workspace vocabulary directory (`.fide/vocab`).
+ */
+export function resolveVocabDir(): string {
+  return resolveWorkspacePath(".fide", "vocab");
+}
+
+/**
+ * Parse one vocabulary file: `{ "terms": [...] }` or a bare array of terms.
+ */
+export function parseVocabTerms(raw: string, source: string, prefixes: Record<string, string>): VocabTerm[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw) as unknown;
+  } catch (error) {
+    throw new Error(`${source}: invalid JSON (${error instanceof Error ? error.message : String(error)}).`);
+  }
+  const terms = Array.isArray(parsed) ? parsed : (parsed as { terms?: unknown } | null)?.terms;
+  if (!Array.isArray(terms)) {
+    throw new Error(`${source}: expected { "terms": [...] } or an array of terms.`);
+  }
+
+  return terms.map((item, index) => {
+    const where = `${source} term ${index + 1}`;
+    const term = (item ?? {}) as RawVocabTerm;
+    if (typeof term.iri !== "string" || !term.iri) throw new Error(`${where}: "iri" is required.`);
+    if (typeof term.definition !== "string" || !term.definition) throw new Error(`${where}: "definition" is required.`);
+    const expanded = expandCurie(term.iri, prefixes);
+    if ("error" in expanded) throw new Error(`${where}: ${expanded.error}`);
+    return {
+      iri: expanded.value,
+      label: typeof term.label === "string" && term.label ? term.label : term.iri,
+      kind: "predicate",
+      definition: term.definition,
+      subjectType: readTypeList(term.subjectType, "subjectType", where),
+      objectType: readTypeList(term.objectType, "objectType", where),
+      source,
+    };
+  });
+}
+
+/**
+ * List `.fide/vocab/*.json` files, sorted by name.
+ */
+export async function listVocabFiles(): Promise<string[]> {
+  const dir = resolveVocabDir();
+  if (!existsSync(dir)) return [];
+  return (await readdir(dir)).filter((name) => name.endsWith(".json")).sort().map((name) => resolve(dir, name));
+}
+
+/**
+ * Built-in terms merged with `.fide/vocab/*.json`. Later files override earlier terms with the same IRI.
+ */
+export async function loadVocabulary(): Promise<VocabTerm[]> {
+  const terms = new Map(BUILT_IN_VOCAB.map((term) => [term.iri, term]));
+  const prefixes = await loadWorkspacePrefixes();
+  for (const file of await listVocabFiles()) {
+    for (const term of parseVocabTerms(await readUtf8(file), `.fide/vocab/${basename(file)}`, prefixes)) {
+      terms.set(term.iri, term);
+    }
+  }
+  return [...terms.values()];
+}
+
+/**
+ * Find a term by IRI, CURIE or label.
+ */
+export function findVocabTerm(terms: VocabTerm[], value: string, prefixes: Record<string, string>): VocabTerm | null {
+  const expanded = expandCurie(value, prefixes);
+  const iri = "value" in expanded ? expanded.value : value;
+  return terms.find((term) => term.iri === iri || term.label === value) ?? null;
+}
+
+/**
+ * Markdown definition block for a term, as used in eval prompts.
+ */
+export function formatVocabDefinitionMarkdown(term: VocabTerm): string[] {
+  return [`### ${term.label}`, `- kind: ${term.kind}`, `- definition: ${term.definition}`];
+}
+
+/**
+ * Check statements against the vocabulary: predicates without a term, and subject/object types
+ * outside a term's expected types.
+ */
+export function checkStatementVocabulary(statements: StoredStatement[], terms: VocabTerm[]): StatementDiagnostic[] {
+  const byIri = new Map(terms.map((term) => [term.iri, term]));
+  const diagnostics: StatementDiagnostic[] = [];
+  for (const statement of statements) {
+    const term = byIri.get(statement.predicateRawIdentifier);
+    if (!term) {
+      diagnostics.push({
+        code: "unknown-predicate",
+        message: `Predicate ${statement.predicateRawIdentifier} is not in the vocabulary. Add it with \`fide vocab add\`.`,
+        statementFideId: statement.statementFideId,
+      });
+      continue;
+    }
+    const subjectType = parseFideIdTypes(statement.subjectFideId).entityType;
+    const objectType = parseFideIdTypes(statement.objectFideId).entityType;
+    if (term.subjectType && !term.subjectType.includes(subjectType)) {
+      diagnostics.push({
+        code: "vocab-type-mismatch",
+        message: `${term.label} expects subject type ${term.subjectType.join(" | ")} (got ${subjectType}).`,
+        statementFideId: statement.statementFideId,
+      });
+    }
+    if (term.objectType && !term.objectType.includes(objectType)) {
+      diagnostics.push({
+        code: "vocab-type-mismatch",
+        message: `${term.label} expects object type ${term.objectType.join(" | ")} (got ${objectType}).`,
+        statementFideId: statement.statementFideId,
+      });
+    }
+  }
+  return diagnostics;
+}
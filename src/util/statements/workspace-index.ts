@@ -0,0 +1,362 @@
+import { existsSync } from "node:fs";
+import { readFile, stat } from "node:fs/promises";
+import { relative, resolve } from "node:path";
+import { parseGraphStatementBatchJsonl } from "@chris-test/graph";
+import { readUtf8, writeUtf8 } from "../io.js";
+import { hasWorkspace, resolveWorkspacePath, resolveWorkspaceRoot } from "../workspace.js";
+import { listStatementBatchPaths, type StoredStatement } from "./store.js";
+
+const INDEX_VERSION = 3;
+
+/**
+ * Where one statement line lives inside a wire batch (path relative to the workspace root).
+ */
+export type IndexLocation = {
+  path: string;
+  line: number;
+  offset: number;
+};
+
+type IndexedStatement = {
+  s: string;
+  sr: string;
+  p: string;
+  o: string;
+  or: string;
+  locations: IndexLocation[];
+};
+
+type IndexedBatch = {
+  root: string;
+  size: number;
+  mtimeMs: number;
+  statementCount: number;
+  statementIds: string[];
+};
+
+/**
+ * Persistent lookup index stored at `.fide/index/statements.json`.
+ */
+export type WorkspaceIndex = {
+  version: number;
+  batches: Record<string, IndexedBatch>;
+  statements: Record<string, IndexedStatement>;
+  subjects: Record<string, string[]>;
+  objects: Record<string, string[]>;
+  predicates: Record<string, string[]>;
+  rawIdentifiers: Record<string, string[]>;
+};
+
+/**
+ * Resolve the workspace index file path.
+ */
+export function resolveWorkspaceIndexPath(): string {
+  return resolveWorkspacePath(".fide", "index", "statements.json");
+}
+
+function emptyIndex(): WorkspaceIndex {
+  return {
+    version: INDEX_VERSION,
+    batches: {},
+    statements: {},
+    subjects: {},
+    objects: {},
+    predicates: {},
+    rawIdentifiers: {},
+  };
+}
+
+function toWorkspacePath(path: string): string {
+  return relative(resolveWorkspaceRoot(), resolve(process.cwd(), path));
+}
+
+const BUCKET_KEYS = ["subjects", "objects", "predicates", "rawIdentifiers"] as const;
+
+/**
+ * Set-backed copies of the lookup buckets, used while (re)indexing so adds and removals stay O(1).
+ * They are written back to the index's arrays by `closeBuckets`.
+ */
+type IndexBuckets = Record<(typeof BUCKET_KEYS)[number], Map<string, Set<string>>>;
+
+function openBuckets(index: WorkspaceIndex): IndexBuckets {
+  const toSets = (map: Record<string, string[]>) => new Map(Object.entries(map).map(([key, ids]) => [key, new Set(ids)]));
+  return {
+    subjects: toSets(index.subjects),
+    objects: toSets(index.objects),
+    predicates: toSets(index.predicates),
+    rawIdentifiers: toSets(index.rawIdentifiers),
+  };
+}
+
+function closeBuckets(index: WorkspaceIndex, buckets: IndexBuckets): void {
+  for (const key of BUCKET_KEYS) {
+    const map: Record<string, string[]> = {};
+    for (const [bucket, ids] of buckets[key]) {
+      if (ids.size > 0) map[bucket] = [...ids];
+    }
+    index[key] = map;
+  }
+}
+
+function addToBucket(map: Map<string, Set<string>>, key: string, value: string): void {
+  const bucket = map.get(key);
+  if (bucket) bucket.add(value);
+  else map.set(key, new Set([value]));
+}
+
+function removeFromBucket(map: Map<string, Set<string>>, key: string, value: string): void {
+  map.get(key)?.delete(value);
+}
+
+/**
+ * Drop every location that points into one batch file, visiting only that batch's statements.
+ */
+function removeBatch(index: WorkspaceIndex, buckets: IndexBuckets, path: string): void {
+  for (const statementFideId of index.batches[path]?.statementIds ?? []) {
+    const entry = index.statements[statementFideId];
+    if (!entry) continue;
+    const locations = entry.locations.filter((location) => location.path !== path);
+    if (locations.length > 0) {
+      entry.locations = locations;
+      continue;
+    }
+    delete index.statements[statementFideId];
+    removeFromBucket(buckets.subjects, entry.s, statementFideId);
+    removeFromBucket(buckets.objects, entry.o, statementFideId);
+    removeFromBucket(buckets.predicates, entry.p, statementFideId);
+    removeFromBucket(buckets.rawIdentifiers, entry.sr, statementFideId);
+    removeFromBucket(buckets.rawIdentifiers, entry.or, statementFideId);
+  }
+  delete index.batches[path];
+}
+
+/**
+ * Index one wire batch, replacing any previous entries for the same file.
+ */
+async function indexBatch(index: WorkspaceIndex, buckets: IndexBuckets, absolutePath: string): Promise<void> {
+  const path = toWorkspacePath(absolutePath);
+  removeBatch(index, buckets, path);
+
+  const raw = await readUtf8(absolutePath);
+  const info = await stat(absolutePath);
+  const parsed = await parseGraphStatementBatchJsonl(raw);
+
+  // Map each wire line (s|p|o) to its line number and byte offset.
+  const lineByTriple = new Map<string, { line: number; offset: number }>();
+  let offset = 0;
+  raw.split("\n").forEach((line, lineIndex) => {
+    const trimmed = line.trim();
+    if (trimmed.startsWith("{")) {
+      try {
+        const wire = JSON.parse(trimmed) as { s?: string; p?: string; o?: string };
+        lineByTriple.set(`${wire.s}|${wire.p}|${wire.o}`, { line: lineIndex + 1, offset });
+      } catch {
+        // Malformed lines are rejected by the batch parser above.
+      }
+    }
+    offset += Buffer.byteLength(line, "utf8") + 1;
+  });
+
+  const statementIds: string[] = [];
+  parsed.statements.forEach((statement, statementIndex) => {
+    const statementFideId = parsed.statementFideIds[statementIndex]!;
+    const position = lineByTriple.get(`${statement.subjectFideId}|${statement.predicateFideId}|${statement.objectFideId}`);
+    if (!position) return;
+    statementIds.push(statementFideId);
+    const entry = index.statements[statementFideId] ?? {
+      s: statement.subjectFideId,
+      sr: statement.subjectRawIdentifier,
+      p: statement.predicateRawIdentifier,
+      o: statement.objectFideId,
+      or: statement.objectRawIdentifier,
+      locations: [],
+    };
+    entry.locations.push({ path, ...position });
+    index.statements[statementFideId] = entry;
+    addToBucket(buckets.subjects, entry.s, statementFideId);
+    addToBucket(buckets.objects, entry.o, statementFideId);
+    addToBucket(buckets.predicates, entry.p, statementFideId);
+    addToBucket(buckets.rawIdentifiers, entry.sr, statementFideId);
+    addToBucket(buckets.rawIdentifiers, entry.or, statementFideId);
+  });
+
+  index.batches[path] = {
+    root: parsed.root,
+    size: info.size,
+    mtimeMs: info.mtimeMs,
+    statementCount: parsed.statements.length,
+    statementIds,
+  };
+}
+
+/**
+ * Load the workspace index, or null when it has not been built (or is an older version).
+ */
+export async function loadWorkspaceIndex(): Promise<WorkspaceIndex | null> {
+  const path = resolveWorkspaceIndexPath();
+  if (!existsSync(path)) return null;
+  try {
+    const parsed = JSON.parse(await readUtf8(path)) as WorkspaceIndex;
+    return parsed.version === INDEX_VERSION ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Persist the workspace index.
+ */
+export async function saveWorkspaceIndex(index: WorkspaceIndex): Promise<void> {
+  await writeUtf8(resolveWorkspaceIndexPath(), `${JSON.stringify(index)}\n`);
+}
+
+/**
+ * Rebuild the workspace index from every batch under `.fide/statements` and persist it.
+ */
+export async function rebuildWorkspaceIndex(): Promise<WorkspaceIndex> {
+  const index = emptyIndex();
+  await refreshWorkspaceIndex(index);
+  await saveWorkspaceIndex(index);
+  return index;
+}
+
+/**
+ * Bring the index up to date (in memory) with batches added, changed or removed on disk.
+ * Returns the counts of re-indexed and dropped batches.
+ */
+export async function refreshWorkspaceIndex(index: WorkspaceIndex): Promise<{ indexed: number; removed: number }> {
+  const buckets = openBuckets(index);
+  const onDisk = await listStatementBatchPaths();
+  const seen = new Set<string>();
+  let indexed = 0;
+  for (const absolutePath of onDisk) {
+    const path = toWorkspacePath(absolutePath);
+    seen.add(path);
+    const known = index.batches[path];
+    if (known) {
+      const info = await stat(absolutePath);
+      if (known.size === info.size && known.mtimeMs === info.mtimeMs) continue;
+    }
+    await indexBatch(index, buckets, absolutePath);
+    indexed += 1;
+  }
+
+  const stale = Object.keys(index.batches).filter((path) => !seen.has(path));
+  for (const path of stale) removeBatch(index, buckets, path);
+  closeBuckets(index, buckets);
+  return { indexed, removed: stale.length };
+}
+
+/**
+ * Load the index (or build one) and refresh it against the statements on disk, in memory only.
+ * Lookup commands call this so results reflect the current workspace without rewriting
+ * `.fide/index/statements.json`; only `index rebuild` and the write paths persist it.
+ */
+export async function openWorkspaceIndex(): Promise<WorkspaceIndex> {
+  if (!hasWorkspace()) return emptyIndex();
+  const index = (await loadWorkspaceIndex()) ?? emptyIndex();
+  await refreshWorkspaceIndex(index);
+  return index;
+}
+
+/**
+ * Bring an existing index up to date after a batch was written (add, promote, init) and persist it.
+ * No-op when no index has been built yet.
+ */
+export async function updateWorkspaceIndexForBatch(batchPath: string): Promise<void> {
+  const index = await loadWorkspaceIndex();
+  if (!index) return;
+  const buckets = openBuckets(index);
+  await indexBatch(index, buckets, batchPath);
+  closeBuckets(index, buckets);
+  await saveWorkspaceIndex(index);
+}
+
+function lineAt(content: Buffer, offset: number): string {
+  const end = content.indexOf(0x0a, offset);
+  return content.subarray(offset, end < 0 ? content.length : end).toString("utf8");
+}
+
+/**
+ * Statement read back through the index, with the batch it came from.
+ */
+export type IndexedStatementHit = StoredStatement & {
+  location: IndexLocation;
+  batchRoot: string | null;
+};
+
+/**
+ * Read statements by fide id using stored line offsets (first location per statement), in the order given.
+ * Each batch file is read once, however many of its statements are requested.
+ */
+export async function readIndexedStatements(index: WorkspaceIndex, statementFideIds: string[]): Promise<IndexedStatementHit[]> {
+  const contents = new Map<string, Buffer>();
+  const hits: IndexedStatementHit[] = [];
+  for (const statementFideId of statementFideIds) {
+    const entry = index.statements[statementFideId];
+    const location = entry?.locations[0];
+    if (!entry || !location) continue;
+    let content = contents.get(location.path);
+    if (!content) {
+      content = await readFile(resolveWorkspacePath(location.path));
+      contents.set(location.path, content);
+    }
+    const wire = JSON.parse(lineAt(content, location.offset)) as Record<string, string>;
+    hits.push({
+      statementFideId,
+      subjectFideId: wire.s!,
+      subjectRawIdentifier: wire.sr!,
+      predicateFideId: wire.p!,
+      predicateRawIdentifier: wire.pr!,
+      objectFideId: wire.o!,
+      objectRawIdentifier: wire.or!,
+      location,
+      batchRoot: index.batches[location.path]?.root ?? null,
+    });
+  }
+  return hits;
+}
+
+/**
+ * Resolve the absolute path of the most recent batch containing a statement.
+ */
+export function findStatementBatchPath(index: WorkspaceIndex, statementFideId: string): string | null {
+  const locations = index.statements[statementFideId]?.locations ?? [];
+  if (locations.length === 0) return null;
+  const latest = [...locations].sort((a, b) => a.path.localeCompare(b.path))[locations.length - 1]!;
+  return resolveWorkspacePath(latest.path);
+}
+
+/**
+ * List statements that are already committed to a batch under `.fide/statements`, with the batch holding each.
+ */
+export function findCommittedStatements(
+  index: WorkspaceIndex,
+  statementFideIds: string[],
+): Array<{ statementFideId: string; batchPath: string }> {
+  return statementFideIds.flatMap((statementFideId) => {
+    const batchPath = findStatementBatchPath(index, statementFideId);
+    return batchPath ? [{ statementFideId, batchPath }] : [];
+  });
+}
+
+/**
+ * Find statement fide ids where an entity fide id appears as subject or object.
+ */
+export function findStatementIdsByEntity(index: WorkspaceIndex, fideId: string): string[] {
+  return [...new Set([...(index.subjects[fideId] ?? []), ...(index.objects[fideId] ?? [])])];
+}
+
+/**
+ * Find statement fide ids where a raw identifier appears as subject or object.
+ */
+export function findStatementIdsByRawIdentifier(index: WorkspaceIndex, rawIdentifier: string): string[] {
+  return index.rawIdentifiers[rawIdentifier] ?? [];
+}
+
+/**
+ * Find statement fide ids using a predicate IRI.
+ */
+export function findStatementIdsByPredicate(index: WorkspaceIndex, predicateIri: string): string[] {
+  return index.predicates[predicateIri] ?? [];
+}
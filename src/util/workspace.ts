@@ -0,0 +1,73 @@
+import { existsSync, statSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+
+let workspaceOverride: string | null = null;
+
+function hasFideDir(dir: string): boolean {
+  const fideDir = resolve(dir, ".fide");
+  return existsSync(fideDir) && statSync(fideDir).isDirectory();
+}
+
+/**
+ * Walk up from `start` to the nearest directory containing `.fide`, like git does for `.git`.
+ */
+export function findWorkspaceRoot(start = process.cwd()): string | null {
+  let dir = resolve(start);
+  for (;;) {
+    if (hasFideDir(dir)) return dir;
+    const parent = dirname(dir);
+    if (parent === dir) return null;
+    dir = parent;
+  }
+}
+
+/**
+ * Pin the workspace root for this process (global `--workspace` flag).
+ */
+export function setWorkspaceRoot(path: string | null): void {
+  workspaceOverride = path ? resolve(process.cwd(), path) : null;
+}
+
+/**
+ * The workspace root pinned with `--workspace`, or null when discovery is automatic.
+ */
+export function getWorkspaceOverride(): string | null {
+  return workspaceOverride;
+}
+
+/**
+ * Resolve the active workspace root: `--workspace`, else the nearest `.fide` above the
+ * working directory, else the working directory itself (where `fide init` would create one).
+ */
+export function resolveWorkspaceRoot(): string {
+  return workspaceOverride ?? findWorkspaceRoot() ?? process.cwd();
+}
+
+/**
+ * Check whether the active workspace root has a `.fide` directory.
+ */
+export function hasWorkspace(): boolean {
+  return hasFideDir(resolveWorkspaceRoot());
+}
+
+/**
+ * Resolve the active workspace root, or throw when no `.fide` directory can be found.
+ */
+export function requireWorkspaceRoot(): string {
+  const root = resolveWorkspaceRoot();
+  if (!hasFideDir(root)) {
+    throw new Error(
+      workspaceOverride
+        ? `No .fide folder found in ${workspaceOverride}. Run \`fide init --dir ${workspaceOverride}\` first.`
+        : `No .fide folder found in ${process.cwd()} or any parent directory. Run \`fide init\` first, or pass --workspace <dir>.`,
+    );
+  }
+  return root;
+}
+
+/**
+ * Resolve a path inside the active workspace (e.g. `.fide/index/statements.json`).
+ */
+export function resolveWorkspacePath(...segments: string[]): string {
+  return resolve(resolveWorkspaceRoot(), ...segments);
+}
@@ -0,0 +1,190 @@
+import assert from "node:assert/strict";
+import { createServer, type RequestListener, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, describe, it, mock } from "node:test";
+import { apiRequest, reportApiError, type ApiSettings } from "../src/util/api/client.js";
+import { fetchApiHealth, GRAPH_API_ROUTES } from "../src/util/api/graph-api.js";
+import { startMockApiServer, type MockApiServer } from "../src/util/api/mock-server.js";
+
+function settingsFor(endpoint: string, overrides: Partial<ApiSettings> = {}): ApiSettings {
+  return { endpoint, token: null, timeoutMs: 2000, retries: 2, ...overrides };
+}
+
+async function startMock(options: { token?: string | null; failFirst?: number } = {}): Promise<MockApiServer> {
+  return startMockApiServer({ host: "127.0.0.1", port: 0, token: options.token ?? null, failFirst: options.failFirst ?? 0 });
+}
+
+/**
+ * Plain HTTP server for responses the mock API never sends (slow, non-JSON, custom Retry-After).
+ */
+async function startRawServer(listener: RequestListener): Promise<{ url: string; server: Server }> {
+  const server = createServer(listener);
+  await new Promise<void>((resolveListen) => server.listen(0, "127.0.0.1", () => resolveListen()));
+  return { url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/`, server };
+}
+
+async function stopRawServer(server: Server): Promise<void> {
+  server.closeAllConnections();
+  await new Promise<void>((resolveClose) => server.close(() => resolveClose()));
+}
+
+describe("apiRequest against the mock API", () => {
+  let mockServer: MockApiServer | null = null;
+  afterEach(async () => {
+    await mockServer?.close();
+    mockServer = null;
+  });
+
+  it("retries injected 503s and reports the attempt count", async () => {
+    mockServer = await startMock({ failFirst: 2 });
+    const result = await fetchApiHealth(settingsFor(mockServer.url));
+    assert.equal(result.ok, true);
+    if (!result.ok) return;
+    assert.equal(result.attempts, 3);
+    assert.deepEqual(result.data, { ok: true, service: "fide-mock", rootCount: 0 });
+  });
+
+  it("gives up with the last http error once retries run out", async () => {
+    mockServer = await startMock({ failFirst: 5 });
+    const result = await fetchApiHealth(settingsFor(mockServer.url, { retries: 1 }));
+    assert.equal(result.ok, false);
+    if (result.ok) return;
+    assert.equal(result.error.kind, "http");
+    assert.equal(result.error.status, 503);
+    assert.equal(result.error.code, "unavailable");
+    assert.equal(result.error.attempts, 2);
+  });
+
+  it("does not retry 4xx or 501 responses", async () => {
+    mockServer = await startMock();
+    const missing = await apiRequest(settingsFor(mockServer.url), "v1/nope");
+    assert.equal(missing.ok, false);
+    if (missing.ok) return;
+    assert.equal(missing.error.status, 404);
+    assert.equal(missing.error.code, "not-found");
+    assert.equal(missing.error.attempts, 1);
+
+    const sql = await apiRequest(settingsFor(mockServer.url), GRAPH_API_ROUTES.sql, { method: "POST", json: { sql: "SELECT 1" } });
+    assert.equal(sql.ok, false);
+    if (sql.ok) return;
+    assert.equal(sql.error.status, 501);
+    assert.equal(sql.error.code, "not-implemented");
+    assert.equal(sql.error.attempts, 1);
+  });
+
+  it("sends the bearer token and reports 401 without retrying", async () => {
+    mockServer = await startMock({ token: "secret" });
+    const anonymous = await fetchApiHealth(settingsFor(mockServer.url));
+    assert.equal(anonymous.ok, false);
+    if (anonymous.ok) return;
+    assert.equal(anonymous.error.kind, "http");
+    assert.equal(anonymous.error.status, 401);
+    assert.equal(anonymous.error.code, "unauthorized");
+    assert.equal(anonymous.error.attempts, 1);
+
+    const authorized = await fetchApiHealth(settingsFor(mockServer.url, { token: "secret" }));
+    assert.equal(authorized.ok, true);
+  });
+});
+
+describe("apiRequest failure modes", () => {
+  let rawServer: Server | null = null;
+  afterEach(async () => {
+    if (rawServer) await stopRawServer(rawServer);
+    rawServer = null;
+  });
+
+  it("waits for Retry-After before retrying", async () => {
+    let requests = 0;
+    const started = await startRawServer((_request, response) => {
+      requests += 1;
+      if (requests === 1) {
+        response.writeHead(429, { "retry-after": "1", "content-type": "application/json" });
+        response.end(JSON.stringify({ error: { code: "rate-limited", message: "Slow down." } }));
+        return;
+      }
+      response.writeHead(200, { "content-type": "application/json" });
+      response.end("{}");
+    });
+    rawServer = started.server;
+
+    const before = Date.now();
+    const result = await apiRequest(settingsFor(started.url), "v1/health");
+    assert.equal(result.ok, true);
+    if (!result.ok) return;
+    assert.equal(result.attempts, 2);
+    assert.ok(Date.now() - before >= 950, "retry should wait for the Retry-After delay");
+  });
+
+  it("reports a timeout when the API does not answer in time", async () => {
+    const started = await startRawServer(() => {
+      // Never respond; the client aborts.
+    });
+    rawServer = started.server;
+
+    const result = await apiRequest(settingsFor(started.url, { timeoutMs: 100, retries: 1 }), "v1/health");
+    assert.equal(result.ok, false);
+    if (result.ok) return;
+    assert.equal(result.error.kind, "timeout");
+    assert.equal(result.error.attempts, 2);
+    assert.match(result.error.message, /timed out after 100ms/);
+  });
+
+  it("reports a 2xx body that is not JSON as invalid-response", async () => {
+    const started = await startRawServer((_request, response) => {
+      response.writeHead(200, { "content-type": "text/html" });
+      response.end("<html>maintenance</html>");
+    });
+    rawServer = started.server;
+
+    const result = await apiRequest(settingsFor(started.url), "v1/health");
+    assert.equal(result.ok, false);
+    if (result.ok) return;
+    assert.equal(result.error.kind, "invalid-response");
+    assert.equal(result.error.status, 200);
+    assert.equal(result.error.attempts, 1);
+  });
+
+  it("reports a refused connection as a network error after retrying", async () => {
+    const started = await startRawServer(() => {});
+    await stopRawServer(started.server);
+
+    const result = await apiRequest(settingsFor(started.url, { retries: 1 }), "v1/health");
+    assert.equal(result.ok, false);
+    if (result.ok) return;
+    assert.equal(result.error.kind, "network");
+    assert.equal(result.error.attempts, 2);
+  });
+});
+
+describe("reportApiError", () => {
+  it("prints the error under `error` with --json", () => {
+    const log = mock.method(console, "log", () => {});
+    try {
+      const error = {
+        kind: "http" as const,
+        message: "Missing or invalid bearer token.",
+        status: 401,
+        code: "unauthorized",
+        url: "http://127.0.0.1:8787/v1/health",
+        attempts: 1,
+      };
+      assert.equal(reportApiError("api ping", error, true), 1);
+      assert.equal(log.mock.callCount(), 1);
+      assert.deepEqual(JSON.parse(String(log.mock.calls[0]!.arguments[0])), { ok: false, command: "api ping", remote: true, error });
+    } finally {
+      log.mock.restore();
+    }
+  });
+
+  it("prints one stderr line without --json", () => {
+    const logError = mock.method(console, "error", () => {});
+    try {
+      const error = { kind: "timeout" as const, message: "Request timed out.", status: null, code: null, url: null, attempts: 3 };
+      assert.equal(reportApiError("graph query match", error, false), 1);
+      assert.deepEqual(logError.mock.calls[0]!.arguments, ["graph query match: timeout error after 3 attempts: Request timed out."]);
+    } finally {
+      logError.mock.restore();
+    }
+  });
+});